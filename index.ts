@@ -1,38 +1,85 @@
 #!/usr/bin/env node
 
 import { parseArgs } from 'node:util';
+import {
+  CLI_OPTIONS,
+  CliValues,
+  ConfigValidationError,
+  formatCliHelp,
+} from './src/utils/config-loader.js';
+import {
+  EXPORT_CLI_HELP,
+  EXPORT_CLI_OPTIONS,
+  ExportCommandError,
+  runExportCommand,
+} from './src/export/cli.js';
 
 /**
  * Code-Reasoning MCP Server Entry Point
  *
  * This is the entry point for the Code-Reasoning MCP Server, which uses sequential thinking
  * methodology to help solve programming problems step by step. It delegates to the main
- * server implementation in src/server.ts after parsing command line arguments.
+ * server implementation in src/server.ts after parsing command line arguments, or runs the
+ * `export` command in src/export/cli.ts.
  *
  * Note: The server registers the "code-reasoning" tool, specializing in programming tasks
  * but is now referred to as "code-reasoning" in configuration and documentation.
  */
 
-// Parse command line arguments
-const { values } = parseArgs({
-  options: {
-    debug: { type: 'boolean', default: false },
-    help: { type: 'boolean', short: 'h', default: false },
-  },
-});
+const help = `${formatCliHelp()}\n\n${EXPORT_CLI_HELP}`;
 
-// Import and run the server
-import('./src/server.js')
-  .then(module => {
-    // Debug flag is passed to runServer
-    if (values.debug) {
-      // eslint-disable-next-line no-console
-      console.log('Starting server in debug mode');
-    }
+// Parse command line arguments; every configuration setting has a flag
+let values: CliValues;
+let positionals: string[];
+try {
+  ({ values, positionals } = parseArgs({
+    options: { ...CLI_OPTIONS, ...EXPORT_CLI_OPTIONS },
+    allowPositionals: true,
+  }));
+} catch (error) {
+  console.error(`${(error as Error).message}\n\n${help}`);
+  process.exit(1);
+}
+
+if (values.help) {
+  console.error(help);
+  process.exit(0);
+}
 
-    module.runServer(values.debug);
-  })
-  .catch(error => {
-    console.error('Error starting server:', error);
+const [command, ...args] = positionals;
+
+if (command === 'export') {
+  runExportCommand(args, values).catch(error => {
+    if (error instanceof ConfigValidationError || error instanceof ExportCommandError) {
+      console.error(error.message);
+    } else {
+      console.error('Error exporting session:', error);
+    }
     process.exit(1);
   });
+} else if (
+  command !== undefined ||
+  values.format !== undefined ||
+  values.output !== undefined ||
+  values.kind !== undefined ||
+  values.tag !== undefined
+) {
+  console.error(
+    command !== undefined
+      ? `Unknown command: ${command}\n\n${help}`
+      : `--format, --output, --kind and --tag can only be used with the export command\n\n${help}`
+  );
+  process.exit(1);
+} else {
+  // Import and run the server
+  import('./src/server.js')
+    .then(module => module.runServer(false, { cli: values }))
+    .catch(error => {
+      if (error instanceof ConfigValidationError) {
+        console.error(error.message);
+      } else {
+        console.error('Error starting server:', error);
+      }
+      process.exit(1);
+    });
+}
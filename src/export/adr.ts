@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Architecture Decision Records from architecture-decision sessions.
+ *
+ * The `architecture-decision` prompt walks the model through Context, Options,
+ * Criteria, Evaluation, Decision and Consequences. This module maps the final
+ * reasoning path of a session started from that prompt onto the sections of
+ * a MADR (Markdown Architectural Decision Record) document, and can write it
+ * as the next numbered ADR into `docs/adr` of the prompt's working directory.
+ *
+ * Thoughts are assigned to a section by the heading they start with, e.g.
+ * "Evaluation: ..." or "**5. Decision**". A thought without a recognizable
+ * heading belongs to the section of the thought before it. The reasoning path
+ * holds revisions in place of the thoughts they replace, so a revision without
+ * a heading belongs to the section of the thought it replaces.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ThoughtNode } from '../sessions/graph.js';
+import { ReasoningSession } from '../sessions/types.js';
+
+/**
+ * Name of the prompt whose sessions can be turned into an ADR.
+ */
+export const ADR_PROMPT = 'architecture-decision';
+
+// Where ADRs are kept, relative to the working directory
+const ADR_DIR = path.join('docs', 'adr');
+const ADR_FILE_PATTERN = /^(\d{4})-.+\.md$/;
+
+type AdrSection = 'context' | 'options' | 'criteria' | 'evaluation' | 'decision' | 'consequences';
+
+// Checked in order: "Decision Criteria" must match criteria before decision
+const SECTION_HEADINGS: [AdrSection, RegExp][] = [
+  ['consequences', /\b(consequences?|implications?)\b/],
+  ['evaluation', /\b(evaluation|evaluating|trade-?offs?)\b/],
+  ['criteria', /\b(criteria|criterion|decision drivers?)\b/],
+  ['decision', /\b(decision|decide|chosen|recommendation)\b/],
+  ['options', /\b(options?|alternatives?)\b/],
+  ['context', /\b(context|problem)\b/],
+];
+
+// Part of a thought's first line searched for a section heading
+const HEADING_LENGTH = 40;
+
+const NOT_COVERED = '_Not covered in the reasoning session._';
+
+/**
+ * Error thrown when an ADR can't be generated or written.
+ */
+export class AdrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdrError';
+  }
+}
+
+/**
+ * A generated ADR.
+ */
+export interface GeneratedAdr {
+  number: number;
+  title: string;
+  markdown: string;
+  /** Path of the written file, when the ADR was written */
+  path?: string;
+}
+
+/**
+ * Finds the section a thought's heading names, if any.
+ */
+function headingSection(node: ThoughtNode): AdrSection | undefined {
+  const heading = node.data.thought
+    .trim()
+    .split('\n')[0]
+    .replace(/^[\s#*_>\-\d.)]+/, '')
+    .slice(0, HEADING_LENGTH)
+    .toLowerCase();
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0];
+}
+
+/**
+ * Finds the section named by the heading of a revision, or of the thoughts it replaced.
+ */
+function revisionSection(session: ReasoningSession, node: ThoughtNode): AdrSection | undefined {
+  let current: ThoughtNode | undefined = node;
+  while (current) {
+    const section = headingSection(current);
+    if (section !== undefined || current.relation !== 'revision') {
+      return section;
+    }
+    current = current.parentId !== undefined ? session.graph.get(current.parentId) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Groups the thoughts that led to the session's conclusion by ADR section.
+ */
+function groupBySection(session: ReasoningSession): Map<AdrSection, string[]> {
+  const { graph } = session;
+  const conclusion = graph
+    .getAll()
+    .filter(n => !n.data.next_thought_needed)
+    .at(-1);
+  const sections = new Map<AdrSection, string[]>();
+  let current: AdrSection = 'context';
+
+  for (const node of graph.activePath(conclusion?.id)) {
+    current = revisionSection(session, node) ?? current;
+    sections.set(current, [...(sections.get(current) ?? []), node.data.thought.trim()]);
+  }
+  return sections;
+}
+
+/**
+ * Formats a comma- or newline-separated prompt argument as a list.
+ */
+function argumentList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/\n|,(?![^(]*\))/)
+    .map(item => item.replace(/^\s*[-*]\s*/, '').trim())
+    .filter(item => item !== '')
+    .map(item => `- ${item}`);
+}
+
+/**
+ * Builds an ADR title from the decision context.
+ */
+function adrTitle(session: ReasoningSession): string {
+  const context = session.origin?.arguments.decision_context?.trim().split('\n')[0] ?? '';
+  if (context === '') {
+    return `Architecture decision from reasoning session ${session.id}`;
+  }
+  return context.length > 80 ? `${context.slice(0, 77)}...` : context;
+}
+
+/**
+ * Turns a title into a file name slug.
+ */
+function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50)
+      .replace(/-+$/, '') || 'decision'
+  );
+}
+
+/**
+ * Gets the number the next ADR in a directory gets.
+ *
+ * @param dir The ADR directory
+ * @returns One more than the highest existing number, or 1
+ */
+export function nextAdrNumber(dir: string): number {
+  if (!fs.existsSync(dir)) {
+    return 1;
+  }
+  const numbers = fs
+    .readdirSync(dir)
+    .map(file => ADR_FILE_PATTERN.exec(file)?.[1])
+    .filter((n): n is string => n !== undefined)
+    .map(Number);
+  return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+}
+
+/**
+ * Renders an ADR in the MADR layout.
+ *
+ * @param session A session started from the architecture-decision prompt
+ * @param number The ADR number
+ * @returns The Markdown document
+ * @throws AdrError if the session wasn't started from the architecture-decision prompt
+ */
+export function renderAdr(session: ReasoningSession, number: number): string {
+  if (session.origin?.prompt !== ADR_PROMPT) {
+    throw new AdrError(
+      `Session ${session.id} was not started from the ${ADR_PROMPT} prompt. ` +
+        `Get the ${ADR_PROMPT} prompt before starting the session to generate an ADR from it.`
+    );
+  }
+
+  const args = session.origin.arguments;
+  const sections = groupBySection(session);
+  // A section lists the prompt's own input first, then the thoughts assigned to it
+  const body = (section: AdrSection, lead: string[] = []): string[] => {
+    const paragraphs = [
+      ...(lead.length > 0 ? [lead.join('\n')] : []),
+      ...(sections.get(section) ?? []),
+    ];
+    return paragraphs.length > 0 ? paragraphs.join('\n\n').split('\n') : [NOT_COVERED];
+  };
+
+  const concluded = session.graph.getAll().some(n => !n.data.next_thought_needed);
+  const lines = [
+    `# ${String(number).padStart(4, '0')}. ${adrTitle(session)}`,
+    '',
+    `- Status: ${concluded ? 'accepted' : 'proposed'}`,
+    `- Date: ${session.updatedAt.slice(0, 10)}`,
+    `- Reasoning session: \`${session.id}\``,
+    '',
+    '## Context and Problem Statement',
+    '',
+    ...body('context', args.decision_context ? [args.decision_context.trim()] : []),
+    '',
+    '## Decision Drivers',
+    '',
+    ...body('criteria', argumentList(args.constraints)),
+    '',
+    '## Considered Options',
+    '',
+    ...body('options', argumentList(args.options)),
+    '',
+    '## Decision Outcome',
+    '',
+    ...body('decision'),
+    '',
+    '### Consequences',
+    '',
+    ...body('consequences'),
+    '',
+    '## Pros and Cons of the Options',
+    '',
+    ...body('evaluation'),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Generates the ADR of a session, numbered after the ADRs already in the
+ * working directory, and optionally writes it there.
+ *
+ * @param session A session started from the architecture-decision prompt
+ * @param write Write the ADR to `docs/adr` under the prompt's working_directory
+ * @returns The generated ADR
+ * @throws AdrError if the session has no ADR origin, or writing was requested without a working directory
+ */
+export function generateAdr(session: ReasoningSession, write = false): GeneratedAdr {
+  // Prompt values like ~/projects/my-app are written for a shell
+  const workingDirectory = session.origin?.arguments.working_directory
+    ?.trim()
+    .replace(/^~(?=$|[\\/])/, os.homedir());
+  const dir = workingDirectory ? path.resolve(workingDirectory, ADR_DIR) : undefined;
+
+  if (write && !dir) {
+    throw new AdrError(
+      `Session ${session.id} has no working_directory. ` +
+        `Pass working_directory to the ${ADR_PROMPT} prompt to write the ADR to ${ADR_DIR}.`
+    );
+  }
+  if (write && !fs.existsSync(workingDirectory as string)) {
+    throw new AdrError(`Working directory not found: ${workingDirectory}`);
+  }
+
+  const number = dir ? nextAdrNumber(dir) : 1;
+  const title = adrTitle(session);
+  const markdown = renderAdr(session, number);
+  if (!write || !dir) {
+    return { number, title, markdown };
+  }
+
+  const filePath = path.join(dir, `${String(number).padStart(4, '0')}-${slugify(title)}.md`);
+  fs.mkdirSync(dir, { recursive: true });
+  // 'wx' fails instead of overwriting an ADR written in the meantime
+  fs.writeFileSync(filePath, markdown, { flag: 'wx' });
+  return { number, title, markdown, path: filePath };
+}
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview The `export` command of the code-reasoning CLI.
+ *
+ * `code-reasoning export <session-id>` prints a stored session, active or
+ * archived, in one of the export formats without starting a server. The
+ * session is looked up in the sessions directory of the configuration the
+ * server would use, then in those of HTTP connections, so the same config
+ * file, environment variables and flags apply.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import process from 'node:process';
+import { restoreSession } from '../sessions/manager.js';
+import { connectionSessionsDir, SessionStore } from '../sessions/store.js';
+import type { CliValues } from '../utils/config-loader.js';
+import { configManager } from '../utils/config-manager.js';
+import { configureLogging } from '../utils/logger.js';
+import { THOUGHT_KINDS, type ThoughtFilter, type ThoughtKind } from '../sessions/kinds.js';
+import { EXPORT_FORMATS, exportSession, isExportFormat } from './index.js';
+
+/**
+ * Options of the export command, added to the `parseArgs` options.
+ */
+export const EXPORT_CLI_OPTIONS = {
+  format: { type: 'string' },
+  output: { type: 'string', short: 'o' },
+  kind: { type: 'string' },
+  tag: { type: 'string' },
+} as const;
+
+/**
+ * Help text for the export command.
+ */
+export const EXPORT_CLI_HELP = [
+  'Usage: code-reasoning export <session-id> [--format <format>] [--output <file>] [options]',
+  '',
+  'Prints a stored reasoning session, including a closed one, as a report.',
+  '',
+  'Export options:',
+  `  --format <format>    Export format: ${EXPORT_FORMATS.join(', ')} (default: markdown)`,
+  '  -o, --output <file>  Write the report to a file instead of stdout',
+  `  --kind <kinds>       Only include thoughts of these comma-separated kinds: ${THOUGHT_KINDS.join(', ')}`,
+  '  --tag <tags>         Only include thoughts carrying all of these comma-separated tags',
+].join('\n');
+
+/**
+ * Error thrown when the export command can't produce a report.
+ */
+export class ExportCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportCommandError';
+  }
+}
+
+/**
+ * Splits a comma-separated flag value.
+ */
+function listFlag(value: string | boolean | undefined): string[] {
+  return typeof value === 'string'
+    ? value
+        .split(',')
+        .map(item => item.trim())
+        .filter(item => item !== '')
+    : [];
+}
+
+/**
+ * Runs the export command.
+ *
+ * @param args Positional arguments after `export`
+ * @param values Parsed command-line values, including the configuration flags
+ * @throws ExportCommandError if the arguments are invalid or the session doesn't exist
+ * @throws ConfigValidationError if the configuration is invalid
+ */
+export async function runExportCommand(args: string[], values: CliValues): Promise<void> {
+  if (args.length !== 1) {
+    throw new ExportCommandError(`Expected exactly one session id.\n\n${EXPORT_CLI_HELP}`);
+  }
+  const [sessionId] = args;
+
+  const format = typeof values.format === 'string' ? values.format : 'markdown';
+  if (!isExportFormat(format)) {
+    throw new ExportCommandError(
+      `Unsupported export format: ${format} (expected one of ${EXPORT_FORMATS.join(', ')})`
+    );
+  }
+
+  const kinds = listFlag(values.kind);
+  const unknownKind = kinds.find(kind => !(THOUGHT_KINDS as readonly string[]).includes(kind));
+  if (unknownKind !== undefined) {
+    throw new ExportCommandError(
+      `Unsupported thought kind: ${unknownKind} (expected one of ${THOUGHT_KINDS.join(', ')})`
+    );
+  }
+  const filter: ThoughtFilter = { kinds: kinds as ThoughtKind[], tags: listFlag(values.tag) };
+
+  await configManager.init({ cli: values });
+  const config = await configManager.getConfig();
+  // Keep stderr quiet apart from problems; stdout carries the report
+  configureLogging({ level: config.debug ? 'debug' : 'warn', format: config.logFormat });
+
+  const sessionsDir = path.join(config.configDir, 'sessions');
+  const root = new SessionStore(sessionsDir);
+  const stores = [
+    root,
+    ...root.listConnections().map(id => new SessionStore(connectionSessionsDir(sessionsDir, id))),
+  ];
+  const stored = stores
+    .map(store => store.load(sessionId) ?? store.loadArchived(sessionId))
+    .find(s => s !== undefined);
+  if (!stored) {
+    throw new ExportCommandError(`Session not found: ${sessionId}`);
+  }
+
+  const report = exportSession(restoreSession(stored), format, filter);
+  if (typeof values.output === 'string') {
+    fs.writeFileSync(values.output, report);
+  } else {
+    process.stdout.write(report);
+  }
+}
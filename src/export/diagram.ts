@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Shared model for diagram exports of a thought graph.
+ *
+ * The Mermaid and DOT exporters draw the same picture: one node per thought
+ * and four kinds of edges. Sequence edges follow each line of thoughts,
+ * branch edges lead from a thought to the first thought of a branch,
+ * revision edges lead from a thought to the revision that replaces it, and
+ * merge edges lead from the last thought of a merged branch to the thought
+ * that merged it.
+ */
+
+import type { ThoughtGraph, ThoughtNode } from '../sessions/graph.js';
+import { matchesFilter, THOUGHT_KIND_LABELS, type ThoughtFilter } from '../sessions/kinds.js';
+
+// Longest excerpt of a thought shown in a node label
+const EXCERPT_LENGTH = 40;
+
+export type DiagramEdgeKind = 'sequence' | 'branch' | 'revision' | 'merge';
+
+/**
+ * An edge between two thoughts, by node id.
+ */
+export interface DiagramEdge {
+  from: number;
+  to: number;
+  kind: DiagramEdgeKind;
+  /** The branch id on branch edges, "merged" on merge edges */
+  label?: string;
+}
+
+/**
+ * Builds the one-line label of a thought: its number, its branch and an excerpt.
+ *
+ * @param node The thought to label
+ * @returns The unescaped label
+ */
+export function diagramNodeLabel(node: ThoughtNode): string {
+  const text = node.data.thought.replace(/\s+/g, ' ').trim();
+  const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 3)}...` : text;
+  const branch = node.branchId !== undefined ? ` [${node.branchId}]` : '';
+  const kind = node.data.kind !== undefined ? ` ${THOUGHT_KIND_LABELS[node.data.kind].icon}` : '';
+  return `${node.data.thought_number}${branch}${kind}: ${excerpt}`;
+}
+
+/**
+ * Lists the edges of a thought graph in the order the thoughts were added.
+ *
+ * A revision gets both a sequence edge from the thought before it on its line
+ * and a revision edge from the thought it replaces.
+ *
+ * @param graph The graph to draw
+ * @returns The edges
+ */
+export function diagramEdges(graph: ThoughtGraph): DiagramEdge[] {
+  const edges: DiagramEdge[] = [];
+  // Latest node of each branch that is open at this point of the session
+  const openBranches = new Map<string, ThoughtNode>();
+
+  for (const node of graph.getAll()) {
+    const merged = node.data.merge_branch_id;
+    const mergedFrom = merged !== undefined ? openBranches.get(merged) : undefined;
+    if (mergedFrom) {
+      edges.push({ from: mergedFrom.id, to: node.id, kind: 'merge', label: 'merged' });
+    }
+    for (const closed of [merged, node.data.abandon_branch_id]) {
+      if (closed !== undefined) openBranches.delete(closed);
+    }
+    if (node.branchId !== undefined) {
+      openBranches.set(node.branchId, node);
+    }
+
+    if (node.relation === 'branch' && node.parentId !== undefined) {
+      edges.push({ from: node.parentId, to: node.id, kind: 'branch', label: node.branchId });
+      continue;
+    }
+    if (node.previousId !== undefined) {
+      edges.push({ from: node.previousId, to: node.id, kind: 'sequence' });
+    }
+    if (node.relation === 'revision' && node.parentId !== undefined) {
+      edges.push({ from: node.parentId, to: node.id, kind: 'revision' });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Narrows a diagram to the thoughts selected by a filter. Edges are kept only
+ * between thoughts that are both selected.
+ *
+ * @param graph The graph to draw
+ * @param filter Kinds and tags of the thoughts to draw, undefined for all
+ * @returns The selected thoughts and the edges between them
+ */
+export function diagramContent(
+  graph: ThoughtGraph,
+  filter: ThoughtFilter | undefined
+): { nodes: ThoughtNode[]; edges: DiagramEdge[] } {
+  const nodes = graph.getAll().filter(n => matchesFilter(n, filter));
+  const drawn = new Set(nodes.map(n => n.id));
+  const edges = diagramEdges(graph).filter(e => drawn.has(e.from) && drawn.has(e.to));
+  return { nodes, edges };
+}
+
+/**
+ * Checks whether a thought has been replaced by a revision.
+ */
+export function isSuperseded(graph: ThoughtGraph, node: ThoughtNode): boolean {
+  return graph.revisionOf(node.id) !== undefined;
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Graphviz DOT digraph of a reasoning session.
+ *
+ * Render the output with `dot -Tsvg` for sessions too large for a Mermaid
+ * flowchart, or to post-process the graph with other Graphviz tools.
+ */
+
+import { ReasoningSession } from '../sessions/types.js';
+import type { ThoughtFilter } from '../sessions/kinds.js';
+import { diagramContent, diagramNodeLabel, isSuperseded, type DiagramEdgeKind } from './diagram.js';
+
+// DOT attributes for branch, revision and merge edges; sequence edges use the defaults
+const EDGE_ATTRIBUTES: Record<Exclude<DiagramEdgeKind, 'sequence'>, string> = {
+  branch: 'style=dashed, color="#1f77b4", fontcolor="#1f77b4"',
+  revision: 'style=bold, color="#d62728", fontcolor="#d62728"',
+  merge: 'style=dashed, color="#2ca02c", fontcolor="#2ca02c", arrowhead=odot',
+};
+
+const SUPERSEDED_ATTRIBUTES =
+  'style="rounded,filled,dashed", fillcolor="#eeeeee", color="#999999", fontcolor="#999999"';
+
+/**
+ * Quotes a string as a DOT identifier.
+ */
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Exports a session as a Graphviz DOT digraph.
+ *
+ * @param session The session to export
+ * @param filter Kinds and tags of the thoughts to draw, undefined for all
+ * @returns The DOT source
+ */
+export function exportSessionDot(session: ReasoningSession, filter?: ThoughtFilter): string {
+  const { graph } = session;
+  const { nodes, edges } = diagramContent(graph, filter);
+  const lines = [
+    `digraph ${quote(`reasoning-${session.id}`)} {`,
+    '  rankdir=TB;',
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const node of nodes) {
+    const style = isSuperseded(graph, node) ? `, ${SUPERSEDED_ATTRIBUTES}` : '';
+    lines.push(`  t${node.id} [label=${quote(diagramNodeLabel(node))}${style}];`);
+  }
+
+  for (const edge of edges) {
+    const attributes =
+      edge.kind === 'sequence'
+        ? ''
+        : ` [label=${quote(edge.label ?? 'revised by')}, ${EDGE_ATTRIBUTES[edge.kind]}]`;
+    lines.push(`  t${edge.from} -> t${edge.to}${attributes};`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Hypothesis report of a bug analysis session.
+ *
+ * The bug-analysis prompt walks the model through hypotheses, tests and a
+ * fix. With thought kinds, those steps can be read back by what they are
+ * rather than by thought number: hypotheses grouped by whether they were
+ * confirmed, refuted or are still open, each with the thoughts that settled
+ * it, followed by the tests that were run, the fix and the conclusion.
+ */
+
+import { hypothesisStates, type HypothesisStatus } from '../sessions/kinds.js';
+import type { ThoughtNode } from '../sessions/graph.js';
+import { ReasoningSession } from '../sessions/types.js';
+import { listItem } from './markdown.js';
+
+const BUG_ANALYSIS_PROMPT = 'bug-analysis';
+
+const STATUS_SECTIONS: [HypothesisStatus, string][] = [
+  ['confirmed', 'Confirmed Hypotheses'],
+  ['refuted', 'Refuted Hypotheses'],
+  ['open', 'Open Hypotheses'],
+];
+
+const NONE = '_None recorded._';
+
+/**
+ * Builds the report title from the bug behavior the prompt was filled in with.
+ */
+function reportTitle(session: ReasoningSession): string {
+  const behavior =
+    session.origin?.prompt === BUG_ANALYSIS_PROMPT
+      ? (session.origin.arguments.bug_behavior?.trim().split('\n')[0] ?? '')
+      : '';
+  if (behavior === '') {
+    return `Hypotheses of Reasoning Session ${session.id}`;
+  }
+  return `Bug Analysis: ${behavior.length > 80 ? `${behavior.slice(0, 77)}...` : behavior}`;
+}
+
+/**
+ * Formats the label of a thought, naming its branch if it has one.
+ */
+function thoughtLabel(prefix: string, node: ThoughtNode): string {
+  const branch = node.branchId !== undefined ? ` (branch \`${node.branchId}\`)` : '';
+  return `${prefix} ${node.data.thought_number}**${branch}:`;
+}
+
+/**
+ * Lists the thoughts of some kinds that were not replaced by a revision.
+ */
+function thoughtsOfKind(session: ReasoningSession, kinds: string[]): string[] {
+  const { graph } = session;
+  const items = graph
+    .getAll()
+    .filter(n => n.data.kind !== undefined && kinds.includes(n.data.kind))
+    .filter(n => graph.revisionOf(n.id) === undefined)
+    .map(n => listItem(thoughtLabel('**Thought', n), n.data.thought, 0));
+  return items.length > 0 ? items : [NONE];
+}
+
+/**
+ * Exports a session as a report organised by hypothesis status.
+ *
+ * @param session The session to export
+ * @returns The Markdown document
+ */
+export function exportSessionHypotheses(session: ReasoningSession): string {
+  const { graph } = session;
+  const hypotheses = hypothesisStates(graph);
+  const count = (status: HypothesisStatus) => hypotheses.filter(h => h.status === status).length;
+
+  const lines = [
+    `# ${reportTitle(session)}`,
+    '',
+    `- Reasoning session: \`${session.id}\``,
+    `- Hypotheses: ${hypotheses.length} (${count('confirmed')} confirmed, ${count('refuted')} refuted, ${count('open')} open)`,
+  ];
+
+  for (const [status, heading] of STATUS_SECTIONS) {
+    lines.push('', `## ${heading}`, '');
+    const matching = hypotheses.filter(h => h.status === status);
+    if (matching.length === 0) {
+      lines.push(NONE);
+    }
+    for (const { node, evidence } of matching) {
+      lines.push(listItem(thoughtLabel('**Hypothesis', node), node.data.thought, 0));
+      for (const proof of evidence) {
+        const verdict =
+          proof.data.refutes_hypothesis === node.data.thought_number
+            ? '❌ Refuted by thought'
+            : '✅ Confirmed by thought';
+        lines.push(listItem(thoughtLabel(`**${verdict}`, proof), proof.data.thought, 1));
+      }
+    }
+  }
+
+  lines.push('', '## Tests', '', ...thoughtsOfKind(session, ['experiment', 'observation']));
+  lines.push('', '## Fix', '', ...thoughtsOfKind(session, ['decision']));
+
+  const conclusion = graph
+    .getAll()
+    .filter(n => !n.data.next_thought_needed)
+    .at(-1);
+  lines.push('', '## Conclusion', '');
+  lines.push(
+    conclusion ? conclusion.data.thought.trim() : '_The session has not reached a conclusion yet._'
+  );
+
+  return `${lines.join('\n')}\n`;
+}
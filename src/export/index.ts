@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Export formats for reasoning sessions.
+ *
+ * A single entry point shared by the export tool, the export resources and
+ * the `export` CLI command, so every surface offers the same formats.
+ */
+
+import type { ThoughtFilter } from '../sessions/kinds.js';
+import { ReasoningSession } from '../sessions/types.js';
+import { exportSessionDot } from './dot.js';
+import { exportSessionHypotheses } from './hypotheses.js';
+import { exportSessionMarkdown } from './markdown.js';
+import { exportSessionMermaid } from './mermaid.js';
+
+/**
+ * Supported export formats.
+ */
+export const EXPORT_FORMATS = ['markdown', 'mermaid', 'dot', 'hypotheses'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * MIME type of each export format.
+ */
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown',
+  mermaid: 'text/vnd.mermaid',
+  dot: 'text/vnd.graphviz',
+  hypotheses: 'text/markdown',
+};
+
+// The hypotheses report always covers the whole session, so it ignores filters
+const EXPORTERS: Record<
+  ExportFormat,
+  (session: ReasoningSession, filter?: ThoughtFilter) => string
+> = {
+  markdown: exportSessionMarkdown,
+  mermaid: exportSessionMermaid,
+  dot: exportSessionDot,
+  hypotheses: session => exportSessionHypotheses(session),
+};
+
+/**
+ * Checks whether a string names a supported export format.
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Exports a session in one of the supported formats.
+ *
+ * @param session The session to export
+ * @param format The export format
+ * @param filter Kinds and tags of the thoughts to include, undefined for all
+ * @returns The exported document
+ */
+export function exportSession(
+  session: ReasoningSession,
+  format: ExportFormat,
+  filter?: ThoughtFilter
+): string {
+  return EXPORTERS[format](session, filter);
+}
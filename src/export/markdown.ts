@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Markdown report of a reasoning session.
+ *
+ * Turns a session's thought graph into a document that can be pasted into a
+ * PR description or design doc: the main line as a numbered list, each branch
+ * indented below the thought it was branched from, revisions next to the
+ * thoughts they replace, the assumptions and open questions that remain, and
+ * the conclusion at the end. A report filtered by kind or tag lists the
+ * matching thoughts in the order they were recorded instead. A report of a
+ * single branch covers only that branch and the branches taken from it.
+ */
+
+import type { ThoughtNode } from '../sessions/graph.js';
+import {
+  describeFilter,
+  isFiltering,
+  matchesFilter,
+  THOUGHT_KIND_LABELS,
+  type ThoughtFilter,
+} from '../sessions/kinds.js';
+import { ReasoningSession } from '../sessions/types.js';
+import { trackUncertainty, type TrackedStatement } from '../sessions/uncertainty.js';
+
+const INDENT = '  ';
+
+/**
+ * Indents every line of a block of text.
+ */
+function indent(text: string, depth: number): string {
+  const prefix = INDENT.repeat(depth);
+  return text
+    .split('\n')
+    .map(line => (line.trim() === '' ? '' : `${prefix}${line}`))
+    .join('\n');
+}
+
+/**
+ * Formats a list item whose text may span several lines.
+ *
+ * @param label Bold or emoji label put before the text
+ * @param text The text, which may span several lines
+ * @param depth Nesting level of the item
+ * @returns The indented item
+ */
+export function listItem(label: string, text: string, depth: number): string {
+  const [first, ...rest] = text.trim().split('\n');
+  const item = `- ${label} ${first}`;
+  return rest.length > 0
+    ? `${indent(item, depth)}\n${indent(rest.join('\n'), depth + 1)}`
+    : indent(item, depth);
+}
+
+/**
+ * Formats the kind and tags of a thought for its label.
+ */
+function kindAndTags(node: ThoughtNode): string {
+  const { kind, tags = [] } = node.data;
+  const parts = [
+    ...(kind !== undefined ? [`${THOUGHT_KIND_LABELS[kind].icon} _${kind}_`] : []),
+    ...tags.map(t => `\`#${t}\``),
+  ];
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
+
+/**
+ * Formats an assumption or question with the thought that stated it.
+ */
+function statementItem(item: TrackedStatement): string {
+  const branch = item.branch_id !== undefined ? ` on branch \`${item.branch_id}\`` : '';
+  return `- ${item.text} _(thought ${item.thought_number}${branch})_`;
+}
+
+/**
+ * Renders the session graph as nested Markdown lists.
+ */
+class MarkdownTreeRenderer {
+  private readonly lines: string[] = [];
+  private readonly renderedBranches = new Set<string>();
+
+  constructor(private readonly session: ReasoningSession) {}
+
+  render(branchId?: string): string[] {
+    if (branchId !== undefined) {
+      this.renderedBranches.add(branchId);
+      this.renderLine(branchId, 0);
+      return this.lines;
+    }
+
+    this.renderLine(undefined, 0);
+
+    // Branches whose origin couldn't be resolved are listed after the main line
+    for (const branchId of this.session.graph.branchIds()) {
+      if (!this.renderedBranches.has(branchId)) {
+        this.renderBranch(branchId, undefined, 0);
+      }
+    }
+    return this.lines;
+  }
+
+  /**
+   * Renders one line of thoughts. Revisions are skipped here because they are
+   * rendered next to the thoughts they replace.
+   */
+  private renderLine(branchId: string | undefined, depth: number): void {
+    for (const node of this.session.graph.lineNodes(branchId)) {
+      if (node.relation !== 'revision') {
+        this.renderThought(node, depth);
+      }
+    }
+  }
+
+  private renderThought(node: ThoughtNode, depth: number): void {
+    const { graph } = this.session;
+    const replaced = node.parentId !== undefined ? graph.get(node.parentId) : undefined;
+    let label =
+      node.relation === 'revision'
+        ? `🔄 **Revision ${node.data.thought_number}** (replaces thought ${replaced?.data.thought_number}):`
+        : `**${node.data.thought_number}.**`;
+    label += kindAndTags(node);
+    if (node.data.confidence !== undefined) {
+      label += ` _(confidence ${node.data.confidence})_`;
+    }
+    if (graph.revisionOf(node.id) !== undefined) {
+      label += ' _(superseded)_';
+    }
+
+    this.lines.push(listItem(label, node.data.thought, depth));
+
+    for (const child of graph.children(node.id)) {
+      if (child.relation === 'revision') {
+        this.renderThought(child, depth + 1);
+      } else if (child.relation === 'branch' && child.branchId !== undefined) {
+        this.renderBranch(child.branchId, node, depth + 1);
+      }
+    }
+  }
+
+  private renderBranch(branchId: string, origin: ThoughtNode | undefined, depth: number): void {
+    if (this.renderedBranches.has(branchId)) {
+      return;
+    }
+    this.renderedBranches.add(branchId);
+
+    const from = origin ? ` from thought ${origin.data.thought_number}` : '';
+    const { status, closedBy } = this.session.graph.branchState(branchId);
+    const closed = closedBy ? `, ${status} in thought ${closedBy.data.thought_number}` : '';
+    this.lines.push(indent(`- 🌿 **Branch \`${branchId}\`**${from}${closed}`, depth));
+    this.renderLine(branchId, depth + 1);
+  }
+}
+
+/**
+ * Builds the title and overview of a report of the whole session or one branch.
+ */
+function reportHeader(
+  session: ReasoningSession,
+  nodes: readonly ThoughtNode[],
+  branchId?: string
+): string[] {
+  const { graph } = session;
+  const lines = [
+    branchId === undefined
+      ? `# Reasoning Session ${session.id}`
+      : `# Branch \`${branchId}\` of Reasoning Session ${session.id}`,
+    '',
+    `- Created: ${session.createdAt}`,
+    `- Updated: ${session.updatedAt}`,
+  ];
+
+  if (branchId === undefined) {
+    const branches = graph.branchIds();
+    lines.push(
+      `- Thoughts: ${nodes.length}`,
+      `- Branches: ${branches.length > 0 ? branches.map(b => `\`${b}\``).join(', ') : 'none'}`
+    );
+  } else {
+    const first = nodes[0];
+    const origin = first?.parentId !== undefined ? graph.get(first.parentId) : undefined;
+    const { status, closedBy } = graph.branchState(branchId);
+    if (origin) {
+      lines.push(`- Branched from: thought ${origin.data.thought_number}`);
+    }
+    lines.push(
+      `- Status: ${status}${closedBy ? ` in thought ${closedBy.data.thought_number}` : ''}`,
+      `- Thoughts: ${nodes.length}`
+    );
+  }
+  lines.push(`- Revisions: ${nodes.filter(n => n.relation === 'revision').length}`);
+  return lines;
+}
+
+/**
+ * Exports a session, or one of its branches, as a Markdown report.
+ *
+ * @param session The session to export
+ * @param filter Kinds and tags of the thoughts to include, undefined for all
+ * @param branchId Optional branch to export instead of the whole session
+ * @returns The Markdown document
+ */
+export function exportSessionMarkdown(
+  session: ReasoningSession,
+  filter?: ThoughtFilter,
+  branchId?: string
+): string {
+  const { graph } = session;
+  const nodes = branchId === undefined ? graph.getAll() : graph.lineNodes(branchId);
+
+  const lines = [...reportHeader(session, nodes, branchId), '', '## Reasoning', ''];
+
+  if (nodes.length === 0) {
+    lines.push('_No thoughts were recorded._');
+  } else if (isFiltering(filter)) {
+    const matching = nodes.filter(n => matchesFilter(n, filter));
+    lines.push(`_Thoughts with ${describeFilter(filter)}._`, '');
+    for (const node of matching) {
+      const branch =
+        node.branchId !== undefined && branchId === undefined
+          ? ` (branch \`${node.branchId}\`)`
+          : '';
+      const superseded = graph.revisionOf(node.id) !== undefined ? ' _(superseded)_' : '';
+      lines.push(
+        listItem(
+          `**${node.data.thought_number}.**${kindAndTags(node)}${branch}${superseded}`,
+          node.data.thought,
+          0
+        )
+      );
+    }
+    if (matching.length === 0) {
+      lines.push('_No thoughts match._');
+    }
+  } else {
+    lines.push(...new MarkdownTreeRenderer(session).render(branchId));
+  }
+
+  // Only listed when thoughts recorded any, to keep plain sessions short
+  const uncertainty = trackUncertainty(session);
+  const onBranch = (item: TrackedStatement) =>
+    branchId === undefined || item.branch_id === branchId;
+  const assumptions = uncertainty.assumptions.filter(onBranch);
+  const open_questions = uncertainty.open_questions.filter(onBranch);
+  if (assumptions.length > 0) {
+    lines.push('', '## Assumptions', '', ...assumptions.map(statementItem));
+  }
+  if (open_questions.length > 0) {
+    lines.push('', '## Open Questions', '', ...open_questions.map(statementItem));
+  }
+
+  const conclusion = nodes.filter(n => !n.data.next_thought_needed).at(-1);
+  lines.push('', '## Conclusion', '');
+  if (conclusion) {
+    const where =
+      conclusion.branchId !== undefined && branchId === undefined
+        ? ` on branch \`${conclusion.branchId}\``
+        : '';
+    const confidence =
+      conclusion.data.confidence !== undefined ? `, confidence ${conclusion.data.confidence}` : '';
+    lines.push(
+      conclusion.data.thought.trim(),
+      '',
+      `_Thought ${conclusion.data.thought_number}${where}${confidence}._`
+    );
+  } else {
+    lines.push(
+      `_The ${branchId === undefined ? 'session' : 'branch'} has not reached a conclusion yet._`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
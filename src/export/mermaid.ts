@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Mermaid flowchart of a reasoning session.
+ *
+ * The flowchart renders directly in GitHub, GitLab and most Markdown viewers,
+ * so reviewers can see where the model branched and what it threw away.
+ */
+
+import { ReasoningSession } from '../sessions/types.js';
+import type { ThoughtFilter } from '../sessions/kinds.js';
+import { diagramContent, diagramNodeLabel, isSuperseded, type DiagramEdgeKind } from './diagram.js';
+
+// Mermaid arrow for each edge kind: solid, dotted, thick and circle-ended
+const ARROWS: Record<DiagramEdgeKind, string> = {
+  sequence: '-->',
+  branch: '-.->',
+  revision: '==>',
+  merge: '-.-o',
+};
+
+/**
+ * Escapes a label for use inside a quoted Mermaid node or edge text.
+ */
+function escapeLabel(text: string): string {
+  // '#' starts an entity code itself, so it has to be escaped first
+  return text
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+}
+
+/**
+ * Exports a session as a Mermaid flowchart.
+ *
+ * @param session The session to export
+ * @param filter Kinds and tags of the thoughts to draw, undefined for all
+ * @returns The Mermaid source
+ */
+export function exportSessionMermaid(session: ReasoningSession, filter?: ThoughtFilter): string {
+  const { graph } = session;
+  const { nodes, edges } = diagramContent(graph, filter);
+  const lines = ['flowchart TD', `  %% Reasoning session ${session.id}`];
+
+  for (const node of nodes) {
+    lines.push(`  t${node.id}["${escapeLabel(diagramNodeLabel(node))}"]`);
+  }
+
+  for (const edge of edges) {
+    const label = edge.kind === 'sequence' ? '' : `|"${escapeLabel(edge.label ?? 'revised by')}"|`;
+    lines.push(`  t${edge.from} ${ARROWS[edge.kind]}${label} t${edge.to}`);
+  }
+
+  const superseded = nodes.filter(n => isSuperseded(graph, n)).map(n => `t${n.id}`);
+  if (superseded.length > 0) {
+    lines.push(
+      '  classDef superseded fill:#eeeeee,stroke:#999999,color:#999999,stroke-dasharray:3 3',
+      `  class ${superseded.join(',')} superseded`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -16,6 +16,7 @@ import { Prompt, PromptResult } from './types.js';
 import { CODE_REASONING_PROMPTS, PROMPT_TEMPLATES } from './templates.js';
 import { PromptValueManager } from './valueManager.js';
 import { CONFIG_DIR } from '../utils/config.js';
+import { createLogger } from '../utils/logger.js';
 
 // Constants for validation and sanitization
 const MAX_STRING_LENGTH = 5000;
@@ -24,6 +25,8 @@ const MAX_NAME_LENGTH = 100;
 const MAX_DESCRIPTION_LENGTH = 1000;
 const MAX_TEMPLATE_LENGTH = 10000;
 
+const log = createLogger('prompts');
+
 /**
  * Manages prompt templates and their operations.
  * Uses the CompleteRequestSchema MCP protocol for argument completion.
@@ -135,9 +138,9 @@ export class PromptManager {
     if (!fs.existsSync(resolvedConfigDir)) {
       try {
         fs.mkdirSync(resolvedConfigDir, { recursive: true });
-        console.error(`Created main config directory: ${resolvedConfigDir}`);
+        log.info('Created main config directory', { dir: resolvedConfigDir });
       } catch (err) {
-        console.error(`Failed to create main config directory: ${resolvedConfigDir}`, err);
+        log.error('Failed to create main config directory', { dir: resolvedConfigDir, err });
       }
     }
 
@@ -146,23 +149,23 @@ export class PromptManager {
     if (!fs.existsSync(promptsDir)) {
       try {
         fs.mkdirSync(promptsDir, { recursive: true });
-        console.error(`Created prompts directory: ${promptsDir}`);
+        log.info('Created prompts directory', { dir: promptsDir });
       } catch (err) {
-        console.error(`Failed to create prompts directory: ${promptsDir}`, err);
+        log.error('Failed to create prompts directory', { dir: promptsDir, err });
       }
     }
 
-    console.error(`Using config directory: ${resolvedConfigDir}`);
+    log.debug('Using config directory', { dir: resolvedConfigDir });
 
     try {
       this.valueManager = new PromptValueManager(resolvedConfigDir);
     } catch (err) {
-      console.error(`Error initializing PromptValueManager: ${err}`);
+      log.error('Error initializing PromptValueManager', { err });
       // Create a dummy value manager that doesn't actually save anything
       this.valueManager = new PromptValueManager(os.tmpdir());
     }
 
-    console.error('PromptManager initialized with', Object.keys(this.prompts).length, 'prompts');
+    log.info('PromptManager initialized', { prompts: Object.keys(this.prompts).length });
   }
 
   /**
@@ -174,7 +177,7 @@ export class PromptManager {
   registerPrompt(prompt: Prompt, template: (args: Record<string, string>) => PromptResult): void {
     this.prompts[prompt.name] = prompt;
     this.templates[prompt.name] = template;
-    console.error(`Registered prompt: ${prompt.name}`);
+    log.debug('Registered prompt', { prompt: prompt.name });
   }
 
   /**
@@ -287,15 +290,15 @@ export class PromptManager {
       if (!fs.existsSync(directory)) {
         try {
           fs.mkdirSync(directory, { recursive: true });
-          console.error(`Created custom prompts directory: ${directory}`);
+          log.info('Created custom prompts directory', { dir: directory });
         } catch (err) {
-          console.error(`Failed to create custom prompts directory: ${directory}`, err);
+          log.error('Failed to create custom prompts directory', { dir: directory, err });
           return;
         }
       }
 
       const files = fs.readdirSync(directory);
-      console.error(`Found ${files.length} files in custom prompts directory`);
+      log.debug('Found files in custom prompts directory', { dir: directory, files: files.length });
 
       for (const file of files) {
         if (file.endsWith('.json')) {
@@ -307,12 +310,12 @@ export class PromptManager {
             const promptDataResult = this.PromptDataSchema.safeParse(JSON.parse(content));
 
             if (!promptDataResult.success) {
-              console.error(
-                `Invalid prompt in file ${file}:`,
-                promptDataResult.error.issues
+              log.warn('Invalid prompt file', {
+                file,
+                issues: promptDataResult.error.issues
                   .map(i => `${i.path.join('.')}: ${i.message}`)
-                  .join(', ')
-              );
+                  .join(', '),
+              });
               continue;
             }
 
@@ -342,14 +345,14 @@ export class PromptManager {
                 ],
               })
             );
-            console.error(`Loaded custom prompt: ${promptData.name}`);
+            log.info('Loaded custom prompt', { prompt: promptData.name, file });
           } catch (err) {
-            console.error(`Error loading prompt from ${file}:`, err);
+            log.error('Error loading prompt file', { file, err });
           }
         }
       }
     } catch (err) {
-      console.error(`Error loading custom prompts:`, err);
+      log.error('Error loading custom prompts', { dir: directory, err });
     }
   }
 
@@ -435,10 +438,11 @@ export class PromptManager {
         result = result.replace(regex, sanitizeResult.data);
       } else {
         // Log validation errors with context for debugging
-        console.error(
-          `Validation failed for argument '${key}' in prompt '${promptName}':`,
-          sanitizeResult.error.issues.map(i => `${i.path}: ${i.message}`).join(', ')
-        );
+        log.warn('Prompt argument failed validation', {
+          prompt: promptName,
+          argument: key,
+          issues: sanitizeResult.error.issues.map(i => `${i.path}: ${i.message}`).join(', '),
+        });
 
         // Fallback to empty string or safe default
         result = result.replace(regex, '');
@@ -234,14 +234,17 @@ Note: You can access and modify files using the filesystem tool mcp.
 
 4. **Form hypotheses**
    - What are potential root causes? List hypotheses in priority order.
+   - Record each one as a thought with kind "hypothesis"
    - Analyze affected components using relevant filesystem tools (read_file, search_code, etc.)
 
 5. **Test hypotheses**
    - How can we validate each hypothesis?
    - What experiments or tests will help confirm the cause?
+   - Record tests with kind "experiment" and findings with kind "observation", and settle each hypothesis with confirms_hypothesis or refutes_hypothesis
    - Consider suggesting specific files to modify for testing
 
 6. **Propose fix**
+   - Record the fix with kind "decision" and the final answer with kind "conclusion"
    - Once cause is identified, what's the recommended fix?
    - What side effects might this fix have?
    - How can we verify the fix works?
@@ -8,6 +8,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { PROMPT_VALUES_FILE } from '../utils/config.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('valueManager');
 
 // Structure for stored prompt values
 interface StoredPromptValues {
@@ -35,7 +38,7 @@ export class PromptValueManager {
         ? PROMPT_VALUES_FILE
         : path.join(configDir, 'prompt_values.json');
 
-    console.error(`PromptValueManager using file path: ${this.valuesFilePath}`);
+    log.debug('Using prompt values file', { file: this.valuesFilePath });
     this.values = this.loadValues();
   }
 
@@ -57,9 +60,12 @@ export class PromptValueManager {
         // from the constructor call to expandTildePath with createDir=true
         try {
           fs.writeFileSync(this.valuesFilePath, JSON.stringify(defaultValues, null, 2));
-          console.error(`Created default prompt values file at: ${this.valuesFilePath}`);
+          log.info('Created default prompt values file', { file: this.valuesFilePath });
         } catch (writeErr) {
-          console.error(`Could not create prompt values file: ${writeErr}`);
+          log.error('Could not create prompt values file', {
+            file: this.valuesFilePath,
+            err: writeErr,
+          });
         }
 
         return defaultValues;
@@ -69,7 +75,7 @@ export class PromptValueManager {
       const fileContent = fs.readFileSync(this.valuesFilePath, 'utf8');
       return JSON.parse(fileContent) as StoredPromptValues;
     } catch (err) {
-      console.error('Error loading prompt values:', err);
+      log.error('Error loading prompt values', { file: this.valuesFilePath, err });
       // Return empty default structure on error
       return { global: {}, prompts: {} };
     }
@@ -83,7 +89,7 @@ export class PromptValueManager {
       // The directory should already exist from the constructor
       fs.writeFileSync(this.valuesFilePath, JSON.stringify(this.values, null, 2));
     } catch (err) {
-      console.error('Error saving prompt values:', err);
+      log.error('Error saving prompt values', { file: this.valuesFilePath, err });
     }
   }
 
@@ -137,7 +143,7 @@ export class PromptValueManager {
       // Save updated values
       this.saveValues();
     } catch (err) {
-      console.error('Error saving prompt values:', err);
+      log.error('Error saving prompt values', { file: this.valuesFilePath, err });
       // Don't throw, just log the error
     }
   }
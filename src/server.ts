@@ -10,24 +10,56 @@
  *
  * ## Key Features
  * - Processes "thoughts" in structured JSON with sequential numbering
+ * - Keeps a separate thought graph for each reasoning session, linking every thought
+ *   to the thought it follows, branches from, or revises
+ * - Persists sessions under the config directory so they can be resumed after a restart
  * - Supports advanced reasoning patterns through branching and revision semantics
  *   - Branching: Explore alternative approaches from any existing thought
  *   - Revision: Correct or update earlier thoughts when new insights emerge
- * - Implements MCP capabilities for tools, resources, and prompts
- * - Uses custom FilteredStdioServerTransport for improved stability
+ * - Implements MCP capabilities for tools, resources, prompts and logging; log records
+ *   reach the client as notifications/message at the level it sets with logging/setLevel
+ * - Offers a read-only "code-reasoning-summary" tool to review the current session
+ * - Exports sessions as Markdown reports, Mermaid flowcharts or Graphviz DOT digraphs
+ *   through the "code-reasoning-export" tool, export resources and the `export` CLI command
+ * - Turns sessions started from the architecture-decision prompt into numbered MADR
+ *   documents through the "code-reasoning-adr" tool
+ * - Publishes sessions and branches as MCP resources under reasoning://session/{id}
+ *   and notifies subscribers as new thoughts arrive
+ * - Uses custom FilteredStdioServerTransport, which only lets complete JSON-RPC messages
+ *   reach stdout and diverts everything else to stderr
+ * - Optionally serves several clients over the Streamable HTTP transport, with
+ *   separate reasoning state per MCP connection
  * - Provides detailed validation and error handling with helpful guidance
- * - Logs thought evolution to stderr for debugging and visibility
+ * - Declares an outputSchema for the code-reasoning tool and returns typed results as
+ *   structuredContent, alongside the same JSON in a text block for older clients
+ * - Tracks branches as open, merged or abandoned through merge_branch_id and
+ *   abandon_branch_id, and lists the open ones in every response
+ * - Accepts a kind (hypothesis, observation, experiment, decision, conclusion, question) and
+ *   tags per thought; summaries and exports can be filtered by them, and the hypotheses
+ *   export organises a bug analysis by which hypotheses were confirmed or refuted
+ * - Records the confidence, assumptions and open questions of each thought, and lists the
+ *   assumptions still in force and the unanswered questions in the summary
+ * - Checks thought numbering, revisions and branch origins against the session history
+ * - Optionally gates conclusions: open branches and thoughts left behind by a revision
+ *   are reported as warnings or reject the concluding thought
+ * - Flags thoughts that restate an earlier thought (word shingle similarity), with an
+ *   optional hard stop once a session keeps looping
+ * - Reports a progress ratio, drift of the total_thoughts estimate and stalls (long runs
+ *   without a branch, revision or conclusion) in each response and in the summary
+ * - Coaches the model at runtime: accepted thoughts carry guidance from configurable rules,
+ *   e.g. to review, branch, or verify a revision before concluding
+ * - Logs thought evolution to stderr through a structured logger (pretty or JSON lines)
  *
  * ## Usage in Claude Desktop
  * - In your Claude Desktop settings, add a "tool" definition referencing this server
  * - Ensure the tool name is "code-reasoning"
  * - Configure Claude to use this tool for complex reasoning and problem-solving tasks
  * - Upon connecting, Claude can call the tool with an argument schema matching the
- *   `ThoughtDataSchema` defined in this file
+ *   schema built by `createThoughtDataSchema` in this file
  *
  * ## MCP Protocol Communication
  * - IMPORTANT: Local MCP servers must never log to stdout (standard output)
- * - All logging must be directed to stderr using console.error() instead of console.log()
+ * - All logging must go to stderr through the logger in src/utils/logger.ts, never console.log()
  * - The stdout channel is reserved exclusively for JSON-RPC protocol messages
  * - Using console.log() or console.info() will cause client-side parsing errors
  *
@@ -45,42 +77,86 @@
  * @mcp-sdk-version 1.11.0
  */
 
+import path from 'node:path';
 import process from 'node:process';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   CompleteRequestSchema,
+  ErrorCode,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
   ServerCapabilities,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
+  type ListResourcesResult,
+  type ReadResourceResult,
   type ServerResult,
 } from '@modelcontextprotocol/sdk/types.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z, ZodError } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { PromptManager } from './prompts/manager.js';
+import { FilteredStdioServerTransport } from './transport/filtered-stdio.js';
+import { startHttpServer } from './transport/http.js';
+import {
+  SessionClosedError,
+  SessionManager,
+  type SessionManagerEvents,
+} from './sessions/manager.js';
+import { connectionSessionsDir, SessionStore } from './sessions/store.js';
+import {
+  listSessionResources,
+  parseSessionUri,
+  readExportResource,
+  readSessionResource,
+  REASONING_RESOURCE_TEMPLATES,
+  sessionUri,
+} from './sessions/resources.js';
+import { buildSessionSummary, listRevisedThoughts } from './sessions/summary.js';
+import { EXPORT_FORMATS, exportSession } from './export/index.js';
+import { generateAdr } from './export/adr.js';
+import type { ReasoningSession } from './sessions/types.js';
+import { ThoughtSequenceError, validateSequence } from './sessions/validator.js';
+import { evaluateCoaching, type CoachingHint, type CoachingOptions } from './sessions/coaching.js';
+import { LoopDetector, ThoughtLoopError, type LoopMatch } from './sessions/loops.js';
+import { CompletionGateError, findLooseEnds } from './sessions/completion.js';
+import { THOUGHT_KIND_LABELS, THOUGHT_KINDS, type ThoughtKind } from './sessions/kinds.js';
+import {
+  measureProgress,
+  progressWarnings,
+  type ProgressOptions,
+  type SessionProgress,
+} from './sessions/progress.js';
+import type { ConfigLoadOptions } from './utils/config-loader.js';
 import { configManager, type CodeReasoningConfig } from './utils/config-manager.js';
 import {
-  CONFIG_DIR,
-  MAX_THOUGHT_LENGTH,
-  MAX_THOUGHTS,
-  CUSTOM_PROMPTS_DIR,
-} from './utils/config.js';
+  addLogSink,
+  configureLogging,
+  createLogger,
+  LogLevel,
+  type LogComponent,
+  type Logger,
+  type LogRecord,
+  type LogSink,
+} from './utils/logger.js';
+import { McpLogForwarder } from './utils/mcp-logging.js';
+import { RotatingFileSink } from './utils/file-log-sink.js';
 
 /* -------------------------------------------------------------------------- */
 /*                               CONFIGURATION                                */
 /* -------------------------------------------------------------------------- */
 
-// Compile-time enum -> const enum would be erased, but we keep values for logs.
-export enum LogLevel {
-  ERROR = 0,
-  WARN = 1,
-  INFO = 2,
-  DEBUG = 3,
-}
+// Re-exported for compatibility; the logger owns the log levels.
+export { LogLevel } from './utils/logger.js';
+
+const log = createLogger('server');
 
 /* -------------------------------------------------------------------------- */
 /*                               DATA SCHEMAS                                 */
@@ -96,62 +172,270 @@ export interface ThoughtData {
   branch_from_thought?: number;
   branch_id?: string;
   needs_more_thoughts?: boolean;
+  merge_branch_id?: string;
+  abandon_branch_id?: string;
+  confidence?: number;
+  assumptions?: string[];
+  open_questions?: string[];
+  answered_questions?: string[];
+  kind?: ThoughtKind;
+  tags?: string[];
+  confirms_hypothesis?: number;
+  refutes_hypothesis?: number;
+  session_id?: string;
 }
 
-const ThoughtDataSchema = z
-  .object({
-    thought: z
-      .string()
-      .trim()
-      .min(1, 'Thought cannot be empty.')
-      .max(MAX_THOUGHT_LENGTH, `Thought exceeds ${MAX_THOUGHT_LENGTH} chars.`),
-    thought_number: z.number().int().positive(),
-    total_thoughts: z.number().int().positive(),
-    next_thought_needed: z.boolean(),
-    is_revision: z.boolean().optional(),
-    revises_thought: z.number().int().positive().optional(),
-    branch_from_thought: z.number().int().positive().optional(),
-    branch_id: z.string().trim().min(1).optional(),
-    needs_more_thoughts: z.boolean().optional(),
-  })
-  .refine(
-    d =>
-      d.is_revision
-        ? typeof d.revises_thought === 'number' && !d.branch_id && !d.branch_from_thought
-        : true,
-    {
-      message: 'If is_revision=true, provide revises_thought and omit branch_* fields.',
-    }
-  )
-  .refine(d => (!d.is_revision && d.revises_thought === undefined) || d.is_revision, {
-    message: 'revises_thought only allowed when is_revision=true.',
-  })
-  .refine(
-    d =>
-      d.branch_id || d.branch_from_thought
-        ? d.branch_id !== undefined && d.branch_from_thought !== undefined && !d.is_revision
-        : true,
-    {
-      message: 'branch_id and branch_from_thought required together and not with revision.',
-    }
+const SessionIdSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .regex(
+    /^[a-zA-Z0-9_-]+$/,
+    'session_id must contain only alphanumeric characters, underscores, and hyphens'
   );
 
-export type ValidatedThoughtData = z.infer<typeof ThoughtDataSchema>;
+/**
+ * Builds the thought schema for the configured limits.
+ */
+function createThoughtDataSchema(
+  limits: Pick<CodeReasoningConfig, 'maxThoughtLength' | 'maxThoughts'>
+) {
+  return z
+    .object({
+      thought: z
+        .string()
+        .trim()
+        .min(1, 'Thought cannot be empty.')
+        .max(limits.maxThoughtLength, `Thought exceeds ${limits.maxThoughtLength} chars.`),
+      thought_number: z
+        .number()
+        .int()
+        .positive()
+        .max(limits.maxThoughts, `Max thought_number exceeded (${limits.maxThoughts}).`),
+      total_thoughts: z.number().int().positive(),
+      next_thought_needed: z.boolean(),
+      is_revision: z.boolean().optional(),
+      revises_thought: z.number().int().positive().optional(),
+      branch_from_thought: z.number().int().positive().optional(),
+      branch_id: z.string().trim().min(1).optional(),
+      needs_more_thoughts: z.boolean().optional(),
+      merge_branch_id: z.string().trim().min(1).optional(),
+      abandon_branch_id: z.string().trim().min(1).optional(),
+      confidence: z.number().min(0).max(1).optional(),
+      assumptions: z.array(z.string().trim().min(1)).optional(),
+      open_questions: z.array(z.string().trim().min(1)).optional(),
+      answered_questions: z.array(z.string().trim().min(1)).optional(),
+      kind: z.enum(THOUGHT_KINDS).optional(),
+      tags: z.array(z.string().trim().min(1)).optional(),
+      confirms_hypothesis: z.number().int().positive().optional(),
+      refutes_hypothesis: z.number().int().positive().optional(),
+      session_id: SessionIdSchema.optional(),
+    })
+    .refine(
+      d =>
+        d.is_revision
+          ? typeof d.revises_thought === 'number' && !d.branch_id && !d.branch_from_thought
+          : true,
+      {
+        message: 'If is_revision=true, provide revises_thought and omit branch_* fields.',
+      }
+    )
+    .refine(d => (!d.is_revision && d.revises_thought === undefined) || d.is_revision, {
+      message: 'revises_thought only allowed when is_revision=true.',
+    })
+    .refine(
+      d =>
+        d.branch_id || d.branch_from_thought
+          ? d.branch_id !== undefined && d.branch_from_thought !== undefined && !d.is_revision
+          : true,
+      {
+        message: 'branch_id and branch_from_thought required together and not with revision.',
+      }
+    )
+    .refine(
+      d =>
+        (d.merge_branch_id === undefined || d.merge_branch_id !== d.branch_id) &&
+        (d.abandon_branch_id === undefined || d.abandon_branch_id !== d.branch_id),
+      {
+        message: 'A thought cannot merge or abandon the branch it belongs to.',
+        path: ['merge_branch_id'],
+      }
+    )
+    .refine(d => d.merge_branch_id === undefined || d.merge_branch_id !== d.abandon_branch_id, {
+      message: 'merge_branch_id and abandon_branch_id must name different branches.',
+      path: ['abandon_branch_id'],
+    })
+    .refine(
+      d => d.confirms_hypothesis === undefined || d.confirms_hypothesis !== d.refutes_hypothesis,
+      {
+        message: 'A thought cannot both confirm and refute the same hypothesis.',
+        path: ['refutes_hypothesis'],
+      }
+    );
+}
+
+export type ValidatedThoughtData = z.infer<ReturnType<typeof createThoughtDataSchema>>;
+
+/**
+ * Result of an accepted thought, returned as structuredContent and as a JSON text block.
+ */
+const ThoughtProcessedSchema = z.object({
+  status: z.literal('processed'),
+  session_id: z.string(),
+  thought_number: z.number().int(),
+  total_thoughts: z.number().int(),
+  next_thought_needed: z.boolean(),
+  active_branch: z
+    .string()
+    .nullable()
+    .describe('branch_id of the line this thought belongs to, null for the main line'),
+  revises_thought: z
+    .number()
+    .int()
+    .nullable()
+    .describe('Thought replaced by this one, null unless it is a revision'),
+  branches: z.array(z.string()),
+  open_branches: z
+    .array(z.string())
+    .describe('Branches not merged or abandoned yet; close them before concluding'),
+  revised_thoughts: z
+    .array(z.object({ thought_number: z.number().int(), revised_by: z.number().int() }))
+    .describe('Every thought of the session replaced by a revision'),
+  thought_history_length: z.number().int(),
+  repeat_of: z
+    .object({
+      thought_number: z.number().int(),
+      branch_id: z.string().nullable(),
+      similarity: z.number(),
+    })
+    .nullable()
+    .describe('Earlier thought this one nearly repeats, null if none'),
+  progress: z
+    .object({
+      ratio: z.number().describe('thought_number / total_thoughts; above 1 when past the estimate'),
+      initial_estimate: z.number().int(),
+      current_estimate: z.number().int(),
+      estimate_raises: z.number().int(),
+      thoughts_since_milestone: z
+        .number()
+        .int()
+        .describe('Thoughts since the latest branch, revision or conclusion'),
+      stalled: z.boolean(),
+    })
+    .describe('Progress of the session against its total_thoughts estimate'),
+  warnings: z
+    .array(z.string())
+    .describe('Sequence problems, repeats and stalls of an accepted thought'),
+  guidance: z
+    .array(z.object({ rule: z.string(), message: z.string() }))
+    .describe('Coaching hints about the reasoning so far'),
+});
 
 /**
- * Cached JSON schema: avoids rebuilding on every ListTools call.
+ * Result of a rejected thought, returned as structuredContent and as a JSON text block.
  */
-const THOUGHT_DATA_JSON_SCHEMA = Object.freeze(
-  zodToJsonSchema(ThoughtDataSchema, { target: 'jsonSchema7' }) as Record<string, unknown>
+const ThoughtFailedSchema = z.object({
+  status: z.literal('failed'),
+  error_code: z.enum([
+    'invalid_input',
+    'limit_exceeded',
+    'sequence_error',
+    'session_closed',
+    'loop_detected',
+    'incomplete_conclusion',
+  ]),
+  error: z.string(),
+  guidance: z.string(),
+  example: z.record(z.unknown()).describe('A corrected call to retry with'),
+  session_id: z.string().optional(),
+  issues: z
+    .array(z.object({ code: z.string(), message: z.string() }))
+    .optional()
+    .describe(
+      'The individual problems of a sequence_error or loose ends of an incomplete_conclusion'
+    ),
+});
+
+export type ThoughtProcessedResult = z.infer<typeof ThoughtProcessedSchema>;
+export type ThoughtFailedResult = z.infer<typeof ThoughtFailedSchema>;
+
+// Tool output schemas must describe an object, so the union gets an explicit type
+const THOUGHT_OUTPUT_JSON_SCHEMA: Tool['outputSchema'] = Object.freeze({
+  ...(zodToJsonSchema(
+    z.discriminatedUnion('status', [ThoughtProcessedSchema, ThoughtFailedSchema]),
+    {
+      target: 'jsonSchema7',
+    }
+  ) as Record<string, unknown>),
+  type: 'object',
+});
+
+const SummaryRequestSchema = z.object({
+  session_id: SessionIdSchema.optional(),
+  kinds: z.array(z.enum(THOUGHT_KINDS)).optional().describe('List thoughts of these kinds'),
+  tags: z.array(z.string().trim().min(1)).optional().describe('List thoughts with all these tags'),
+});
+
+const SUMMARY_REQUEST_JSON_SCHEMA = Object.freeze(
+  zodToJsonSchema(SummaryRequestSchema, { target: 'jsonSchema7' }) as Record<string, unknown>
+);
+
+const ExportRequestSchema = z.object({
+  session_id: SessionIdSchema.optional(),
+  format: z.enum(EXPORT_FORMATS).default('markdown'),
+  kinds: z.array(z.enum(THOUGHT_KINDS)).optional().describe('Only include thoughts of these kinds'),
+  tags: z
+    .array(z.string().trim().min(1))
+    .optional()
+    .describe('Only include thoughts with all these tags'),
+});
+
+const EXPORT_REQUEST_JSON_SCHEMA = Object.freeze(
+  zodToJsonSchema(ExportRequestSchema, { target: 'jsonSchema7' }) as Record<string, unknown>
+);
+
+const AdrRequestSchema = z.object({
+  session_id: SessionIdSchema.optional(),
+  write: z.boolean().default(false),
+});
+
+const ADR_REQUEST_JSON_SCHEMA = Object.freeze(
+  zodToJsonSchema(AdrRequestSchema, { target: 'jsonSchema7' }) as Record<string, unknown>
 );
 
 /* -------------------------------------------------------------------------- */
 /*                                  TOOL DEF                                  */
 /* -------------------------------------------------------------------------- */
 
-const CODE_REASONING_TOOL: Tool = {
-  name: 'code-reasoning',
-  description: `🧠 A detailed tool for dynamic and reflective problem-solving through sequential thinking.
+/**
+ * Formats a duration for the tool description.
+ */
+function formatDuration(ms: number): string {
+  if (ms % 60000 === 0) {
+    return `${ms / 60000} minute${ms === 60000 ? '' : 's'}`;
+  }
+  return `${+(ms / 1000).toFixed(1)} seconds`;
+}
+
+/**
+ * Builds the code-reasoning tool definition, stating the limits of the active config.
+ */
+function buildCodeReasoningTool(cfg: CodeReasoningConfig): Tool {
+  const idleLimit =
+    cfg.timeoutMs > 0
+      ? `A session is closed after ${formatDuration(cfg.timeoutMs)} without a new thought; continue it before then`
+      : 'Sessions stay open until the server stops';
+  const completionLimit = {
+    off: '',
+    warn: '\n- Concluding with open branches, or with thoughts built on a revised thought that were not revised themselves, is flagged with warnings',
+    reject:
+      '\n- Concluding is rejected while branches are open, or while thoughts built on a revised thought were not revised themselves',
+  }[cfg.completionGate];
+
+  return {
+    name: 'code-reasoning',
+    description: `🧠 A detailed tool for dynamic and reflective problem-solving through sequential thinking.
 
 This tool helps you analyze problems through a flexible thinking process that can adapt and evolve.
 Each thought can build on, question, or revise previous insights as understanding deepens.
@@ -163,85 +447,201 @@ Each thought can build on, question, or revise previous insights as understandin
 - next_thought_needed: Set to FALSE ONLY when completely done (required)
 - branch_from_thought + branch_id: When exploring alternative approaches (🌿)
 - is_revision + revises_thought: When correcting earlier thinking (🔄)
+- merge_branch_id / abandon_branch_id: Close a branch, from the main line or another branch, when its result is folded in or the approach is dropped
+- confidence: How sure you are of this thought, from 0 to 1 (optional)
+- assumptions / open_questions: What this thought takes for granted, and what it leaves unanswered (optional)
+- answered_questions: Earlier open_questions this thought answers, repeated as written (optional)
+- kind: hypothesis, observation, experiment, decision, conclusion or question (optional)
+- tags: Free-form labels, e.g. a component name, to filter summaries and exports by (optional)
+- confirms_hypothesis / refutes_hypothesis: thought_number of a hypothesis this thought settles (optional)
+- session_id: Continue or resume a specific session, even after a restart (optional; a new session starts whenever thought_number is 1)
 
 ✅ CRITICAL CHECKLIST (review every 3 thoughts):
 1. Need to explore alternatives? → Use BRANCH (🌿) with branch_from_thought + branch_id
 2. Need to correct earlier thinking? → Use REVISION (🔄) with is_revision + revises_thought
 3. Scope changed? → Adjust total_thoughts up or down as needed
-4. Only set next_thought_needed = false when you have a complete, verified solution
+4. Only set next_thought_needed = false when you have a complete, verified solution and every branch is merged or abandoned
 
 💡 BEST PRACTICES:
 - Start with an initial estimate of total_thoughts, but adjust as you go
 - Don't hesitate to revise earlier conclusions when new insights emerge
 - Use branching to explore multiple approaches to the same problem
-- Express uncertainty when present
+- Express uncertainty when present: set confidence, and list assumptions and open_questions
 - Ignore information that is irrelevant to the current step
 - End with a clear, validated conclusion before setting next_thought_needed = false
+- Act on the guidance hints returned with accepted thoughts
+
+📏 LIMITS:
+- At most ${cfg.maxThoughts} thoughts per session (thought_number ≤ ${cfg.maxThoughts})
+- Each thought at most ${cfg.maxThoughtLength} characters
+- ${idleLimit}${completionLimit}
 
 ✍️ End each thought by asking: "What am I missing or need to reconsider?"`,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    inputSchema: zodToJsonSchema(createThoughtDataSchema(cfg), { target: 'jsonSchema7' }) as any, // SDK expects unknown JSON schema shape
+    outputSchema: THOUGHT_OUTPUT_JSON_SCHEMA,
+    annotations: {
+      title: 'Code Reasoning',
+      readOnlyHint: true,
+    },
+  };
+}
+
+const CODE_REASONING_SUMMARY_TOOL: Tool = {
+  name: 'code-reasoning-summary',
+  description: `📜 Returns a summary of the current code-reasoning session.
+
+Use this to look back at your own reasoning chain without re-reading the conversation,
+especially in long chains or before setting next_thought_needed = false.
+
+The summary contains:
+- active_path: The thoughts that led to the latest thought, each revised thought replaced by its revision
+- open_branches: Branches that were neither merged nor abandoned, with their origin and length
+- closed_branches: Branches closed with merge_branch_id or abandon_branch_id, with the closing thought
+- assumptions: Every assumption still in force, i.e. stated by a thought that was not revised or abandoned
+- open_questions / answered_questions: Questions still waiting for an answer, and the ones answered so far
+- hypotheses: Every hypothesis that still stands, with its status (open, confirmed or refuted)
+- revised_thoughts: Which thoughts were replaced and by which revision
+- latest_conclusion: The most recent thought with next_thought_needed = false, if any
+- progress: Progress ratio, how the total_thoughts estimate drifted, and whether the session stalled
+
+Pass kinds and/or tags to also get filtered_thoughts: every thought of the session of one of
+the kinds and carrying all of the tags.
+
+Pass session_id to summarize a specific session, including one that was closed, instead of
+the current one; the current session stays the same.`,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  inputSchema: THOUGHT_DATA_JSON_SCHEMA as any, // SDK expects unknown JSON schema shape
+  inputSchema: SUMMARY_REQUEST_JSON_SCHEMA as any, // SDK expects unknown JSON schema shape
   annotations: {
-    title: 'Code Reasoning',
+    title: 'Code Reasoning Summary',
     readOnlyHint: true,
   },
 };
 
-/* -------------------------------------------------------------------------- */
-/*                        STDIO TRANSPORT WITH FILTERING                      */
-/* -------------------------------------------------------------------------- */
+const CODE_REASONING_EXPORT_TOOL: Tool = {
+  name: 'code-reasoning-export',
+  description: `📝 Exports a code-reasoning session as a report or diagram.
 
-class FilteredStdioServerTransport extends StdioServerTransport {
-  private originalStdoutWrite: typeof process.stdout.write;
+Use this to hand a finished reasoning chain to the user, e.g. for a PR description or design doc.
 
-  constructor() {
-    super();
+Formats (format parameter):
+- markdown (default): The main line of thoughts as a numbered list, each branch indented below
+  the thought it branched from with its branch_id, revisions next to the thoughts they replace,
+  and a final conclusion section
+- mermaid: A Mermaid flowchart of the thought graph
+- dot: A Graphviz DOT digraph of the thought graph
+- hypotheses: A bug analysis report with hypotheses grouped by status (confirmed, refuted, open),
+  each with the thoughts that settled it, followed by tests, fix and conclusion
 
-    // Store the original implementation before making any changes
-    this.originalStdoutWrite = process.stdout.write;
+Diagrams label each thought with its number and an excerpt, draw sequence, branch and revision
+edges in different styles, and grey out thoughts that were replaced by a revision.
 
-    // Create a bound version that preserves the original context
-    const boundOriginalWrite = this.originalStdoutWrite.bind(process.stdout);
+Pass kinds and/or tags to only include thoughts of those kinds carrying all of those tags; the
+hypotheses report always covers the whole session.
 
-    // Override with a new function that avoids recursion
-    process.stdout.write = ((data: string | Uint8Array): boolean => {
-      if (typeof data === 'string') {
-        const s = data.trimStart();
-        if (s.startsWith('{') || s.startsWith('[')) {
-          // Call the bound function directly to avoid circular reference
-          return boundOriginalWrite(data);
-        }
-        // Silent handling of non-JSON strings
-        return true;
-      }
-      // For non-string data, use the original implementation
-      return boundOriginalWrite(data);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    }) as any;
-  }
+Pass session_id to export a specific session, including one that was closed, instead of
+the current one.`,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  inputSchema: EXPORT_REQUEST_JSON_SCHEMA as any, // SDK expects unknown JSON schema shape
+  annotations: {
+    title: 'Code Reasoning Export',
+    readOnlyHint: true,
+  },
+};
 
-  // Add cleanup to restore the original when the transport is closed
-  async close(): Promise<void> {
-    // Restore the original stdout.write before closing
-    if (this.originalStdoutWrite) {
-      process.stdout.write = this.originalStdoutWrite;
-    }
+const CODE_REASONING_ADR_TOOL: Tool = {
+  name: 'code-reasoning-adr',
+  description: `🏛️ Generates an Architecture Decision Record from an architecture-decision session.
 
-    // Call the parent class's close method
-    await super.close();
-  }
-}
+Use this after finishing a session started from the architecture-decision prompt to capture the
+decision in the MADR layout: Context and Problem Statement, Decision Drivers, Considered Options,
+Decision Outcome, Consequences, and Pros and Cons of the Options.
+
+Thoughts are placed in a section by the heading they start with (Context, Options, Criteria,
+Evaluation, Decision, Consequences), so begin each thought with the step it covers.
+Thoughts that were replaced by a revision are left out.
+
+Set write = true to save the ADR as the next numbered file (e.g. docs/adr/0004-use-postgres.md)
+under the working_directory given to the prompt. Pass session_id to use a specific session
+instead of the current one.`,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  inputSchema: ADR_REQUEST_JSON_SCHEMA as any, // SDK expects unknown JSON schema shape
+  annotations: {
+    title: 'Code Reasoning ADR',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
 
 /* -------------------------------------------------------------------------- */
 /*                              SERVER IMPLEMENTATION                         */
 /* -------------------------------------------------------------------------- */
 
 class CodeReasoningServer {
-  private readonly thoughtHistory: ValidatedThoughtData[] = [];
-  private readonly branches = new Map<string, ValidatedThoughtData[]>();
+  private readonly sessions: SessionManager;
+  private readonly thoughtSchema: ReturnType<typeof createThoughtDataSchema>;
+  private readonly coaching: CoachingOptions;
+  private readonly loops: LoopDetector;
+  private readonly progress: ProgressOptions;
+  private readonly log: Logger;
 
-  constructor(private readonly cfg: Readonly<CodeReasoningConfig>) {
-    console.error('Code-Reasoning logic ready', { cfg });
+  /**
+   * @param cfg The active configuration
+   * @param logSink Optional sink that receives the records of this instance, e.g. for its MCP client
+   * @param connectionId The HTTP connection served by this instance, whose session files are
+   *   kept apart from those of the other connections
+   */
+  constructor(
+    private readonly cfg: Readonly<CodeReasoningConfig>,
+    logSink?: LogSink,
+    connectionId?: string
+  ) {
+    this.log = logSink ? log.withSink(logSink) : log;
+    this.thoughtSchema = createThoughtDataSchema(cfg);
+    this.coaching = {
+      rules: cfg.coaching ? cfg.coachingRules : [],
+      branchAfterThoughts: cfg.coachingBranchAfter,
+      reviewInterval: cfg.coachingReviewInterval,
+    };
+    this.progress = { stallAfter: cfg.stallAfter };
+    this.loops = new LoopDetector({ threshold: cfg.loopThreshold, maxRepeats: cfg.loopMaxRepeats });
+
+    let store: SessionStore | undefined;
+    if (cfg.persistSessions) {
+      const sessionsDir = path.join(cfg.configDir, 'sessions');
+      store =
+        connectionId === undefined
+          ? new SessionStore(sessionsDir)
+          : new SessionStore(connectionSessionsDir(sessionsDir, connectionId), sessionsDir);
+    }
+    const sessionsLog = createLogger('sessions');
+    this.sessions = new SessionManager(
+      store,
+      cfg.timeoutMs,
+      logSink ? sessionsLog.withSink(logSink) : sessionsLog
+    );
+    this.log.debug('Code-Reasoning logic ready', { cfg });
+  }
+
+  /**
+   * Registers listeners for session activity, used to notify resource subscribers.
+   */
+  public onSessionActivity(listeners: {
+    created: (...args: SessionManagerEvents['created']) => void;
+    thought: (...args: SessionManagerEvents['thought']) => void;
+    closed: (...args: SessionManagerEvents['closed']) => void;
+  }): void {
+    this.sessions.on('created', listeners.created);
+    this.sessions.on('thought', listeners.thought);
+    this.sessions.on('closed', listeners.closed);
+  }
+
+  /**
+   * Stops session idle timers once the client has disconnected.
+   */
+  public dispose(): void {
+    this.sessions.dispose();
   }
 
   /* ----------------------------- Helper Methods ---------------------------- */
@@ -255,20 +655,52 @@ class CodeReasoningServer {
       revises_thought,
       branch_id,
       branch_from_thought,
+      merge_branch_id,
+      abandon_branch_id,
+      confidence,
+      assumptions,
+      open_questions,
+      answered_questions,
+      kind,
+      tags,
+      confirms_hypothesis,
+      refutes_hypothesis,
     } = t;
+    const kindLabel = kind !== undefined ? THOUGHT_KIND_LABELS[kind] : undefined;
 
     const header = is_revision
       ? `🔄 Revision ${thought_number}/${total_thoughts} (of ${revises_thought})`
       : branch_id
         ? `🌿 Branch ${thought_number}/${total_thoughts} (from ${branch_from_thought}, id:${branch_id})`
-        : `💭 Thought ${thought_number}/${total_thoughts}`;
+        : kindLabel
+          ? `${kindLabel.icon} ${kindLabel.label} ${thought_number}/${total_thoughts}`
+          : `💭 Thought ${thought_number}/${total_thoughts}`;
+    // Revisions and branches keep their header and name the kind after it
+    const kindSuffix =
+      kindLabel && (is_revision || branch_id) ? ` ${kindLabel.icon} ${kindLabel.label}` : '';
+    const tagList = tags?.length ? ` ${tags.map(tag => `#${tag}`).join(' ')}` : '';
+    const links = [
+      ...(merge_branch_id !== undefined ? [`merges ${merge_branch_id}`] : []),
+      ...(abandon_branch_id !== undefined ? [`abandons ${abandon_branch_id}`] : []),
+      ...(confirms_hypothesis !== undefined ? [`confirms ${confirms_hypothesis}`] : []),
+      ...(refutes_hypothesis !== undefined ? [`refutes ${refutes_hypothesis}`] : []),
+    ];
 
     const body = thought
       .split('\n')
       .map(l => `  ${l}`)
       .join('\n');
 
-    return `\n${header}\n---\n${body}\n---`;
+    const linked = links.length > 0 ? ` [${links.join(', ')}]` : '';
+    const certainty = confidence !== undefined ? ` (confidence ${confidence})` : '';
+    const notes = [
+      ...(assumptions ?? []).map(a => `  Assumes: ${a}`),
+      ...(open_questions ?? []).map(q => `  Asks: ${q}`),
+      ...(answered_questions ?? []).map(q => `  Answers: ${q}`),
+    ];
+    const footer = notes.length > 0 ? `\n${notes.join('\n')}` : '';
+
+    return `${header}${kindSuffix}${linked}${certainty}${tagList}\n---\n${body}\n---${footer}`;
   }
 
   /**
@@ -310,35 +742,79 @@ class CodeReasoningServer {
     };
   }
 
-  private buildSuccess(t: ValidatedThoughtData): ServerResult {
-    const payload = {
+  private buildSuccess(
+    t: ValidatedThoughtData,
+    session: ReasoningSession,
+    warnings: string[],
+    guidance: CoachingHint[],
+    repeat: LoopMatch | undefined,
+    progress: SessionProgress
+  ): ServerResult {
+    const { graph } = session;
+    const payload: ThoughtProcessedResult = {
       status: 'processed',
+      session_id: session.id,
       thought_number: t.thought_number,
       total_thoughts: t.total_thoughts,
       next_thought_needed: t.next_thought_needed,
-      branches: Array.from(this.branches.keys()),
-      thought_history_length: this.thoughtHistory.length,
-    } as const;
+      active_branch: t.branch_id ?? null,
+      revises_thought: t.is_revision ? (t.revises_thought ?? null) : null,
+      branches: graph.branchIds(),
+      open_branches: graph.openBranchIds(),
+      revised_thoughts: listRevisedThoughts(graph),
+      thought_history_length: graph.size,
+      repeat_of: repeat
+        ? {
+            thought_number: repeat.node.data.thought_number,
+            branch_id: repeat.node.branchId ?? null,
+            similarity: +repeat.similarity.toFixed(2),
+          }
+        : null,
+      progress,
+      warnings,
+      guidance,
+    };
 
-    return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }], isError: false };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+      structuredContent: payload,
+      isError: false,
+    };
   }
 
-  private buildError(error: Error): ServerResult {
+  /**
+   * Builds the result of a rejected thought.
+   *
+   * @param error Why the thought was rejected
+   * @param sessionId The session the thought was resolved to, if it got that far
+   */
+  private buildError(error: Error, sessionId?: string): ServerResult {
     let errorMessage = error.message;
+    let errorCode: ThoughtFailedResult['error_code'] = 'invalid_input';
+    let issues: ThoughtFailedResult['issues'];
     let guidance = 'Check the tool description and schema for correct usage.';
-    const example = this.getExampleThought(errorMessage);
+    let example = this.getExampleThought(errorMessage);
 
     if (error instanceof ZodError) {
       errorMessage = `Validation Error: ${error.errors
         .map(e => `${e.path.join('.')}: ${e.message}`)
         .join(', ')}`;
 
+      if (error.errors[0]?.code === 'too_big') {
+        errorCode = 'limit_exceeded';
+      }
+
       // Provide specific guidance based on error path
       const firstPath = error.errors[0]?.path.join('.');
       if (firstPath?.includes('thought') && !firstPath.includes('number')) {
-        guidance = `The 'thought' field is empty or invalid. Must be a non-empty string below ${MAX_THOUGHT_LENGTH} characters.`;
+        guidance = `The 'thought' field is empty or invalid. Must be a non-empty string below ${this.cfg.maxThoughtLength} characters.`;
+      } else if (firstPath === 'thought_number' && error.errors[0].code === 'too_big') {
+        guidance = `The maximum thought limit (${this.cfg.maxThoughts}) was reached. Conclude this session, or start a new one with thought_number 1.`;
       } else if (firstPath?.includes('thought_number')) {
         guidance = 'Ensure thought_number is a positive integer and increments correctly.';
+      } else if (firstPath === 'merge_branch_id' || firstPath === 'abandon_branch_id') {
+        guidance =
+          'Close a branch from the main line or another branch: set merge_branch_id when its result is folded in, or abandon_branch_id when the approach is dropped.';
       } else if (firstPath?.includes('branch')) {
         guidance =
           'When branching, provide both "branch_from_thought" (number) and "branch_id" (string), and do not combine with revision.';
@@ -346,61 +822,323 @@ class CodeReasoningServer {
         guidance =
           'When revising, set is_revision=true and provide revises_thought (positive number). Do not combine with branching.';
       }
+    } else if (error instanceof ThoughtSequenceError) {
+      errorMessage = `Sequence Error: ${error.message}`;
+      errorCode = 'sequence_error';
+      issues = error.issues.map(({ code, message }) => ({ code, message }));
+
+      // Suggest the same thought with every reported problem corrected
+      example = Object.assign({}, error.data, ...error.issues.map(i => i.fix));
+
+      switch (error.issues[0]?.code) {
+        case 'duplicate_thought_number':
+        case 'skipped_thought_number':
+        case 'out_of_order_thought_number':
+          guidance =
+            'Number thoughts consecutively within the main line or branch they belong to. To revisit an earlier thought, use is_revision=true with revises_thought instead of reusing its number.';
+          break;
+        case 'revision_target_missing':
+        case 'revision_points_forward':
+          guidance =
+            'revises_thought must reference an earlier thought that already exists in this session.';
+          break;
+        case 'branch_origin_missing':
+        case 'branch_points_forward':
+          guidance =
+            'branch_from_thought must reference an earlier thought that already exists in this session.';
+          break;
+        case 'unknown_question':
+          guidance =
+            'answered_questions must repeat open_questions of earlier thoughts that were not answered yet. The summary lists them under open_questions.';
+          break;
+        case 'hypothesis_not_found':
+          guidance =
+            'confirms_hypothesis and refutes_hypothesis must reference an earlier thought recorded with kind "hypothesis".';
+          break;
+        case 'branch_not_found':
+        case 'branch_already_closed':
+          guidance =
+            'merge_branch_id and abandon_branch_id must name a branch of this session that is still open. The open branches are listed as open_branches in earlier responses.';
+          break;
+      }
+    } else if (error instanceof CompletionGateError) {
+      errorCode = 'incomplete_conclusion';
+      issues = error.looseEnds.map(({ code, message }) => ({ code, message }));
+      // Keep the session open and resolve the loose ends before concluding again
+      example = {
+        ...error.data,
+        next_thought_needed: true,
+        total_thoughts: Math.max(error.data.total_thoughts, error.data.thought_number + 1),
+      };
+      guidance =
+        'This server only accepts a conclusion once nothing is left unresolved. Record this thought with next_thought_needed=true, then merge or abandon each open branch (merge_branch_id, abandon_branch_id) and revise each listed thought before concluding again.';
+    } else if (error instanceof ThoughtLoopError) {
+      errorCode = 'loop_detected';
+      guidance = `This session keeps restating earlier thoughts. Instead of repeating thought ${error.match.node.data.thought_number}, revise it with is_revision, branch to a different approach, or conclude with next_thought_needed=false.`;
+    } else if (error instanceof SessionClosedError) {
+      errorCode = 'session_closed';
+      sessionId = error.sessionId;
+      guidance =
+        'The session was closed because no thought arrived in time. Start a new session with thought_number 1 and no session_id.';
     } else if (errorMessage.includes('length')) {
-      guidance = `The thought is too long. Keep it under ${MAX_THOUGHT_LENGTH} characters.`;
-    } else if (errorMessage.includes('Max thought_number exceeded')) {
-      guidance = `The maximum thought limit (${MAX_THOUGHTS}) was reached.`;
+      guidance = `The thought is too long. Keep it under ${this.cfg.maxThoughtLength} characters.`;
     }
 
-    const payload = {
+    const payload: ThoughtFailedResult = {
       status: 'failed',
+      error_code: errorCode,
       error: errorMessage,
       guidance,
       example,
+      ...(sessionId !== undefined && { session_id: sessionId }),
+      ...(issues && { issues }),
     };
 
-    return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }], isError: true };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+      structuredContent: payload,
+      isError: true,
+    };
   }
 
   /* ------------------------------ Main Handler ----------------------------- */
 
   public async processThought(input: unknown): Promise<ServerResult> {
     const t0 = performance.now();
+    let session: ReasoningSession | undefined;
 
     try {
-      const data = ThoughtDataSchema.parse(input);
+      const data = this.thoughtSchema.parse(input);
+      session = this.sessions.resolve(data);
 
-      // Sanity limits -------------------------------------------------------
-      if (data.thought_number > MAX_THOUGHTS) {
-        throw new Error(`Max thought_number exceeded (${MAX_THOUGHTS}).`);
+      // Sequence consistency ------------------------------------------------
+      const issues = validateSequence(session, data);
+      if (issues.length > 0 && this.cfg.sequenceValidation === 'strict') {
+        throw new ThoughtSequenceError(issues, data);
+      }
+      // Repeats ----------------------------------------------------------------
+      const repeat = this.loops.check(session, data);
+
+      const warnings = issues.map(i => i.message);
+      if (issues.length > 0) {
+        this.log.warn('Thought accepted with sequence issues', {
+          session: session.id,
+          thought_number: data.thought_number,
+          issues: issues.map(i => i.code),
+        });
       }
-      if (data.branch_from_thought && data.branch_from_thought > this.thoughtHistory.length) {
-        throw new Error(`Invalid branch_from_thought ${data.branch_from_thought}.`);
+
+      // Completion gate -------------------------------------------------------
+      if (this.cfg.completionGate !== 'off') {
+        const looseEnds = findLooseEnds(session, data);
+        if (looseEnds.length > 0 && this.cfg.completionGate === 'reject') {
+          throw new CompletionGateError(looseEnds, data);
+        }
+        if (looseEnds.length > 0) {
+          warnings.push(...looseEnds.map(l => l.message));
+          this.log.warn('Conclusion accepted with loose ends', {
+            session: session.id,
+            thought_number: data.thought_number,
+            loose_ends: looseEnds.map(l => l.code),
+          });
+        }
       }
 
       // Stats & storage -----------------------------------------------------
-      this.thoughtHistory.push(data);
-      if (data.branch_id) {
-        const arr = this.branches.get(data.branch_id) ?? [];
-        arr.push(data);
-        this.branches.set(data.branch_id, arr);
+      const node = this.sessions.append(session, data);
+      const guidance = evaluateCoaching(session, node, this.coaching);
+
+      if (repeat) {
+        const repeated = repeat.node.data.thought_number;
+        const where = repeat.node.branchId ? ` on branch '${repeat.node.branchId}'` : '';
+        warnings.push(
+          `Thought ${data.thought_number} repeats thought ${repeated}${where} (${Math.round(repeat.similarity * 100)}% similar). Build on it, revise it with is_revision, or branch to a new approach instead of restating it.`
+        );
+        this.log.warn('Repeated thought', {
+          session: session.id,
+          thought_number: data.thought_number,
+          repeats_thought: repeated,
+          similarity: +repeat.similarity.toFixed(2),
+          repeats: this.loops.recordRepeat(session),
+        });
+      }
+
+      const progress = measureProgress(session, this.progress);
+      const progressIssues = progressWarnings(session, progress);
+      if (progressIssues.length > 0) {
+        warnings.push(...progressIssues);
+        this.log.warn('Reasoning progress', {
+          session: session.id,
+          thought_number: data.thought_number,
+          ...progress,
+        });
       }
 
-      console.error(this.formatThought(data));
-      console.error('✔️  processed', {
-        num: data.thought_number,
+      // The full trace goes to debug output and, when enabled, the log file
+      this.log.debug(this.formatThought(data), { session: session.id });
+      this.log.info('Thought processed', {
+        session: session.id,
+        thought_number: data.thought_number,
+        ...(data.branch_id !== undefined && { branch_id: data.branch_id }),
+        ...(data.is_revision && { revises_thought: data.revises_thought }),
+        ...(data.merge_branch_id !== undefined && { merged_branch: data.merge_branch_id }),
+        ...(data.abandon_branch_id !== undefined && { abandoned_branch: data.abandon_branch_id }),
+        ...(warnings.length > 0 && { warnings: warnings.length }),
+        progress: progress.ratio,
         elapsedMs: +(performance.now() - t0).toFixed(1),
       });
 
-      return this.buildSuccess(data);
+      if (guidance.length > 0) {
+        this.log.debug('Coaching guidance', {
+          session: session.id,
+          rules: guidance.map(g => g.rule),
+        });
+      }
+
+      return this.buildSuccess(data, session, warnings, guidance, repeat, progress);
     } catch (err) {
       const e = err as Error;
-      console.error('❌ error', {
-        err: e.message,
+      this.log.warn('Thought rejected', {
+        error:
+          err instanceof ZodError
+            ? err.errors.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')
+            : e.message,
         elapsedMs: +(performance.now() - t0).toFixed(1),
+        ...(err instanceof ThoughtLoopError && {
+          session: session?.id,
+          repeats_thought: err.match.node.data.thought_number,
+          similarity: +err.match.similarity.toFixed(2),
+          repeats: err.repeats,
+        }),
       });
-      if (err instanceof ZodError && this.cfg.debug) console.error(err.errors);
-      return this.buildError(e);
+      if (err instanceof ZodError) this.log.debug('Validation issues', { issues: err.errors });
+      // A session created for this thought is discarded with it, so only report known sessions
+      return this.buildError(e, session && this.sessions.get(session.id) ? session.id : undefined);
+    }
+  }
+
+  public async processSummary(input: unknown): Promise<ServerResult> {
+    try {
+      const { session_id, kinds, tags } = SummaryRequestSchema.parse(input ?? {});
+      // Summarizing a session must not change which session later thoughts go to
+      const session = session_id
+        ? (this.sessions.peek(session_id) ?? this.sessions.loadArchived(session_id))
+        : this.sessions.getCurrent();
+      if (!session) {
+        throw new Error(
+          session_id ? `Session not found: ${session_id}` : 'No reasoning session has started yet.'
+        );
+      }
+
+      const payload = buildSessionSummary(session, this.progress, { kinds, tags });
+      return {
+        content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+        isError: false,
+      };
+    } catch (err) {
+      const e = err as Error;
+      this.log.warn('Summary failed', { error: e.message });
+      const payload = { status: 'failed', error: e.message };
+      return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }], isError: true };
+    }
+  }
+
+  public async processExport(input: unknown): Promise<ServerResult> {
+    try {
+      const { session_id, format, kinds, tags } = ExportRequestSchema.parse(input ?? {});
+      const session = session_id
+        ? (this.sessions.peek(session_id) ?? this.sessions.loadArchived(session_id))
+        : this.sessions.getCurrent();
+      if (!session) {
+        throw new Error(
+          session_id ? `Session not found: ${session_id}` : 'No reasoning session has started yet.'
+        );
+      }
+
+      return {
+        content: [{ type: 'text', text: exportSession(session, format, { kinds, tags }) }],
+        isError: false,
+      };
+    } catch (err) {
+      const e = err as Error;
+      this.log.warn('Export failed', { error: e.message });
+      const payload = { status: 'failed', error: e.message };
+      return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }], isError: true };
+    }
+  }
+
+  public async processAdr(input: unknown): Promise<ServerResult> {
+    try {
+      const { session_id, write } = AdrRequestSchema.parse(input ?? {});
+      const session = session_id
+        ? (this.sessions.peek(session_id) ?? this.sessions.loadArchived(session_id))
+        : this.sessions.getCurrent();
+      if (!session) {
+        throw new Error(
+          session_id ? `Session not found: ${session_id}` : 'No reasoning session has started yet.'
+        );
+      }
+
+      const adr = generateAdr(session, write);
+      if (adr.path) {
+        this.log.info('ADR written', { session: session.id, path: adr.path });
+      }
+      return {
+        content: [
+          { type: 'text', text: adr.markdown },
+          ...(adr.path ? [{ type: 'text' as const, text: `ADR written to ${adr.path}` }] : []),
+        ],
+        isError: false,
+      };
+    } catch (err) {
+      const e = err as Error;
+      this.log.warn('ADR generation failed', { error: e.message });
+      const payload = { status: 'failed', error: e.message };
+      return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }], isError: true };
+    }
+  }
+
+  /**
+   * Notes that the client fetched a prompt, so the session it starts next
+   * records the prompt as its origin.
+   *
+   * @param prompt The name of the prompt
+   * @param args The arguments the prompt was filled in with
+   */
+  public recordPromptOrigin(prompt: string, args: Record<string, string>): void {
+    this.sessions.setPendingOrigin({ prompt, arguments: args });
+  }
+
+  /* ------------------------------- Resources ------------------------------- */
+
+  public listResources(): ListResourcesResult {
+    const sessions = this.sessions
+      .listMetadata()
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return { resources: listSessionResources(sessions) };
+  }
+
+  public readResource(uri: string): ReadResourceResult {
+    const ref = parseSessionUri(uri);
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    // Closed sessions can still be exported
+    const session =
+      this.sessions.peek(ref.sessionId) ??
+      (ref.exportFormat !== undefined ? this.sessions.loadArchived(ref.sessionId) : undefined);
+    if (!session) {
+      throw new McpError(ErrorCode.InvalidParams, `Session not found: ${ref.sessionId}`);
+    }
+
+    try {
+      return ref.exportFormat !== undefined
+        ? readExportResource(uri, session, ref.exportFormat)
+        : readSessionResource(uri, session, ref.branchId);
+    } catch (err) {
+      throw new McpError(ErrorCode.InvalidParams, (err as Error).message);
     }
   }
 }
@@ -409,23 +1147,32 @@ class CodeReasoningServer {
 /*                                BOOTSTRAP                                   */
 /* -------------------------------------------------------------------------- */
 
-export async function runServer(debugFlag = false): Promise<void> {
-  // Initialize config manager and get config
-  await configManager.init();
-  const config = await configManager.getConfig();
-
-  // Apply debug flag if specified
-  if (debugFlag) {
-    await configManager.setValue('debug', true);
-  }
+const SERVER_META = { name: 'code-reasoning-server', version: '0.7.0' } as const;
 
-  const serverMeta = { name: 'code-reasoning-server', version: '0.7.0' } as const;
+// Components shared by every connection, whose records every client may see
+const SHARED_LOG_COMPONENTS: ReadonlySet<LogComponent> = new Set(['prompts', 'valueManager']);
 
+/**
+ * Creates an MCP server with its own reasoning state. Each MCP connection gets
+ * its own server, so sessions never leak between connected clients.
+ *
+ * @param config The active configuration
+ * @param promptManager Prompt manager shared by every connection, if prompts are enabled
+ * @param startupRecords Warnings and errors logged during startup, replayed to the client
+ * @param connectionId The HTTP connection the server is created for, if any
+ */
+function createMcpServer(
+  config: CodeReasoningConfig,
+  promptManager?: PromptManager,
+  startupRecords: readonly LogRecord[] = [],
+  connectionId?: string
+): Server {
   // Configure server capabilities based on config
   const capabilities: Partial<ServerCapabilities> = {
     tools: {},
-    resources: {},
+    resources: { subscribe: true, listChanged: true },
     completions: {}, // Add completions capability
+    logging: {},
   };
 
   // Only add prompts capability if enabled
@@ -436,23 +1183,29 @@ export async function runServer(debugFlag = false): Promise<void> {
     };
   }
 
-  const srv = new Server(serverMeta, { capabilities });
-  const logic = new CodeReasoningServer(config);
+  const srv = new Server(SERVER_META, { capabilities });
 
-  // Initialize prompt manager if enabled
-  let promptManager: PromptManager | undefined;
-  if (config.promptsEnabled) {
-    promptManager = new PromptManager(CONFIG_DIR);
-    console.error('Prompts capability enabled');
+  // Forward this connection's log records, and those of shared components, to the client
+  const forwarder = new McpLogForwarder(srv);
+  startupRecords.forEach(forwarder.sink);
+  const removeSharedSink = addLogSink(record => {
+    if (SHARED_LOG_COMPONENTS.has(record.component)) forwarder.sink(record);
+  });
+  const connectionLog = log.withSink(forwarder.sink);
+
+  srv.oninitialized = () => forwarder.markReady();
+  srv.setRequestHandler(SetLevelRequestSchema, async req => {
+    forwarder.setLevel(req.params.level);
+    return {};
+  });
 
-    // Load custom prompts from the standard location
-    console.error(`Loading custom prompts from ${CUSTOM_PROMPTS_DIR}`);
-    await promptManager.loadCustomPrompts(CUSTOM_PROMPTS_DIR);
+  const logic = new CodeReasoningServer(config, forwarder.sink, connectionId);
 
+  if (config.promptsEnabled && promptManager) {
     // Add prompt handlers
     srv.setRequestHandler(ListPromptsRequestSchema, async () => {
       const prompts = promptManager?.getAllPrompts() || [];
-      console.error(`Returning ${prompts.length} prompts`);
+      connectionLog.debug('Listing prompts', { prompts: prompts.length });
       return { prompts };
     });
 
@@ -465,10 +1218,13 @@ export async function runServer(debugFlag = false): Promise<void> {
         const promptName = req.params.name;
         const args = req.params.arguments || {};
 
-        console.error(`Getting prompt: ${promptName} with args:`, args);
+        connectionLog.info('Getting prompt', { prompt: promptName });
+        connectionLog.debug('Prompt arguments', { prompt: promptName, args });
 
         // Get the prompt result
         const result = promptManager.applyPrompt(promptName, args);
+        // Stored values now hold the arguments the prompt was filled in with
+        logic.recordPromptOrigin(promptName, promptManager.getStoredValues(promptName));
 
         // Return the result in the format expected by MCP
         return {
@@ -477,7 +1233,7 @@ export async function runServer(debugFlag = false): Promise<void> {
         };
       } catch (err) {
         const e = err as Error;
-        console.error('Prompt error:', e.message);
+        connectionLog.warn('Prompt error', { error: e.message });
         return {
           isError: true,
           content: [{ type: 'text', text: e.message }],
@@ -504,7 +1260,10 @@ export async function runServer(debugFlag = false): Promise<void> {
         const promptName = req.params.ref.name;
         const argName = req.params.argument.name;
 
-        console.error(`Completing argument: ${argName} for prompt: ${promptName}`);
+        connectionLog.debug('Completing prompt argument', {
+          prompt: promptName,
+          argument: argName,
+        });
 
         // Get stored values for this prompt using the public method
         const storedValues = promptManager.getStoredValues(promptName);
@@ -526,7 +1285,7 @@ export async function runServer(debugFlag = false): Promise<void> {
         };
       } catch (err) {
         const e = err as Error;
-        console.error('Completion error:', e.message);
+        connectionLog.warn('Completion error', { error: e.message });
         return {
           completion: {
             values: [],
@@ -547,12 +1306,77 @@ export async function runServer(debugFlag = false): Promise<void> {
   }
 
   // Existing handlers
-  srv.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: [] }));
-  srv.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [CODE_REASONING_TOOL] }));
-  srv.setRequestHandler(CallToolRequestSchema, req =>
-    req.params.name === CODE_REASONING_TOOL.name
-      ? logic.processThought(req.params.arguments)
-      : Promise.resolve({
+  srv.setRequestHandler(ListResourcesRequestSchema, async () => logic.listResources());
+  srv.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: REASONING_RESOURCE_TEMPLATES,
+  }));
+  srv.setRequestHandler(ReadResourceRequestSchema, async req => logic.readResource(req.params.uri));
+
+  // Resource subscriptions: notify subscribers as thoughts arrive
+  const subscriptions = new Set<string>();
+  srv.setRequestHandler(SubscribeRequestSchema, async req => {
+    subscriptions.add(req.params.uri);
+    return {};
+  });
+  srv.setRequestHandler(UnsubscribeRequestSchema, async req => {
+    subscriptions.delete(req.params.uri);
+    return {};
+  });
+
+  const notifyListChanged = () =>
+    srv
+      .sendResourceListChanged()
+      .catch(err => log.error('Failed to send resource list change', { err }));
+
+  logic.onSessionActivity({
+    created: () => notifyListChanged(),
+    closed: () => notifyListChanged(),
+    thought: (session, node) => {
+      // The first thought of a branch publishes a new branch resource
+      if (node.branchId !== undefined && session.graph.lineNodes(node.branchId).length === 1) {
+        notifyListChanged();
+      }
+
+      const uris = [sessionUri(session.id)];
+      if (node.branchId !== undefined) {
+        uris.push(sessionUri(session.id, node.branchId));
+      }
+      for (const uri of uris.filter(u => subscriptions.has(u))) {
+        srv
+          .sendResourceUpdated({ uri })
+          .catch(err => log.error('Failed to send resource update', { uri, err }));
+      }
+    },
+  });
+
+  srv.onclose = () => {
+    logic.dispose();
+    removeSharedSink();
+  };
+
+  // The tool description and schema state the limits of this server's config
+  const reasoningTool = buildCodeReasoningTool(config);
+
+  srv.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      reasoningTool,
+      CODE_REASONING_SUMMARY_TOOL,
+      CODE_REASONING_EXPORT_TOOL,
+      CODE_REASONING_ADR_TOOL,
+    ],
+  }));
+  srv.setRequestHandler(CallToolRequestSchema, req => {
+    switch (req.params.name) {
+      case reasoningTool.name:
+        return logic.processThought(req.params.arguments);
+      case CODE_REASONING_SUMMARY_TOOL.name:
+        return logic.processSummary(req.params.arguments);
+      case CODE_REASONING_EXPORT_TOOL.name:
+        return logic.processExport(req.params.arguments);
+      case CODE_REASONING_ADR_TOOL.name:
+        return logic.processAdr(req.params.arguments);
+      default:
+        return Promise.resolve({
           isError: true,
           content: [
             {
@@ -560,27 +1384,115 @@ export async function runServer(debugFlag = false): Promise<void> {
               text: JSON.stringify({ code: -32601, message: `Unknown tool ${req.params.name}` }),
             },
           ],
-        })
-  );
+        });
+    }
+  });
+
+  return srv;
+}
+
+export async function runServer(debugFlag = false, options: ConfigLoadOptions = {}): Promise<void> {
+  // Keep startup problems, such as custom prompts that fail to load, for the clients' log view
+  const startupRecords: LogRecord[] = [];
+  const stopRecordingStartup = addLogSink(record => {
+    if (record.level <= LogLevel.WARN) startupRecords.push(record);
+  });
 
-  const transport = new FilteredStdioServerTransport();
-  await srv.connect(transport);
-  console.error('🚀 Code-Reasoning MCP Server ready.');
+  // Load defaults, config file, environment variables and command-line flags
+  await configManager.init(options);
+
+  // Apply debug flag if specified
+  if (debugFlag) {
+    await configManager.setValue('debug', true);
+  }
+
+  const config = await configManager.getConfig();
+  configureLogging({ level: config.debug ? 'debug' : config.logLevel, format: config.logFormat });
+
+  // Keep the full reasoning trace on disk when requested
+  let fileSink: RotatingFileSink | undefined;
+  if (config.logToFile) {
+    fileSink = new RotatingFileSink({
+      dir: path.join(config.configDir, 'logs'),
+      maxBytes: config.logFileMaxBytes,
+      retentionDays: config.logFileRetentionDays,
+      format: config.logFormat,
+    });
+    addLogSink(fileSink.sink);
+  }
+  log.info('Starting Code-Reasoning MCP Server', {
+    version: SERVER_META.version,
+    transport: config.transport,
+    configDir: config.configDir,
+    ...(fileSink && { logFile: fileSink.currentFile }),
+  });
+
+  // Initialize prompt manager if enabled, shared by every connection
+  let promptManager: PromptManager | undefined;
+  if (config.promptsEnabled) {
+    promptManager = new PromptManager(config.configDir);
+    log.info('Prompts capability enabled');
+
+    // Load custom prompts from the configured location
+    const customPromptsDir = path.join(config.configDir, 'prompts');
+    log.info('Loading custom prompts', { dir: customPromptsDir });
+    await promptManager.loadCustomPrompts(customPromptsDir);
+  }
+  stopRecordingStartup();
+
+  // Session files pile up with every reasoning chain, so old ones are removed at startup
+  const sessionsDir = path.join(config.configDir, 'sessions');
+  if (config.persistSessions) {
+    const removed = new SessionStore(sessionsDir).prune(config.sessionRetentionDays);
+    if (removed > 0) {
+      log.info('Removed expired session files', {
+        removed,
+        retentionDays: config.sessionRetentionDays,
+      });
+    }
+  }
+
+  let close: () => Promise<void>;
+  if (config.transport === 'http') {
+    // Each connection persists its sessions apart, so clients never see or overwrite each other's
+    const httpServer = await startHttpServer(
+      connectionId => createMcpServer(config, promptManager, startupRecords, connectionId),
+      {
+        host: config.httpHost,
+        port: config.httpPort,
+        idleTimeoutMs: config.httpIdleTimeoutMs,
+      }
+    );
+    close = () => httpServer.close();
+    log.info('Code-Reasoning MCP Server ready', {
+      transport: 'http',
+      url: `http://${config.httpHost}:${config.httpPort}/mcp`,
+    });
+  } else {
+    const srv = createMcpServer(config, promptManager, startupRecords);
+    const transport = new FilteredStdioServerTransport();
+    await srv.connect(transport);
+    close = async () => {
+      await srv.close();
+      await transport.close();
+    };
+    log.info('Code-Reasoning MCP Server ready', { transport: 'stdio' });
+  }
 
   const shutdown = async (sig: string) => {
-    console.error(`↩︎ shutdown on ${sig}`);
-    await srv.close();
-    await transport.close();
+    log.info('Shutting down', { signal: sig });
+    await close();
+    fileSink?.close();
     process.exit(0);
   };
 
   ['SIGINT', 'SIGTERM'].forEach(s => process.on(s, () => shutdown(s)));
   process.on('uncaughtException', err => {
-    console.error('💥 uncaught', err);
+    log.error('Uncaught exception', { err });
     shutdown('uncaughtException');
   });
   process.on('unhandledRejection', r => {
-    console.error('💥 unhandledRejection', r);
+    log.error('Unhandled promise rejection', { reason: r });
     shutdown('unhandledRejection');
   });
 }
@@ -588,7 +1500,7 @@ export async function runServer(debugFlag = false): Promise<void> {
 // Self-execute when run directly ------------------------------------------------
 if (import.meta.url === `file://${process.argv[1]}`) {
   runServer(process.argv.includes('--debug')).catch(err => {
-    console.error('FATAL: failed to start', err);
+    log.error('Failed to start', { err });
     process.exit(1);
   });
 }
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Coaching feedback for accepted thoughts.
+ *
+ * The tool description asks the model to review its reasoning every few
+ * thoughts, to consider alternatives and to verify revisions before
+ * concluding. The rules in this module check the session after every accepted
+ * thought and turn what the model skipped into short hints, returned as
+ * `guidance` in the tool response. Each rule can be switched off and the
+ * thresholds are configurable, so reasoning quality can be tuned without
+ * changing prompts.
+ */
+
+import type { ThoughtNode } from './graph.js';
+import { ReasoningSession } from './types.js';
+
+/**
+ * Identifiers of the coaching rules, in the order they are checked.
+ */
+export const COACHING_RULE_IDS = [
+  'review_checkpoint',
+  'no_branch',
+  'total_exceeded',
+  'unverified_revision',
+  'no_alternatives',
+  'open_branches',
+] as const;
+
+export type CoachingRuleId = (typeof COACHING_RULE_IDS)[number];
+
+/**
+ * Settings of the coaching rules.
+ */
+export interface CoachingOptions {
+  /** Rules to apply; an empty list turns coaching off */
+  rules: readonly CoachingRuleId[];
+  /** Suggest a branch once this many thoughts were recorded without one */
+  branchAfterThoughts: number;
+  /** Ask for a review every this many thoughts, 0 to disable the checkpoint */
+  reviewInterval: number;
+}
+
+/**
+ * A hint produced by a coaching rule.
+ */
+export interface CoachingHint {
+  rule: CoachingRuleId;
+  message: string;
+}
+
+/**
+ * Everything a rule looks at: the session after the thought was recorded,
+ * and the node of that thought.
+ */
+interface CoachingContext {
+  session: ReasoningSession;
+  node: ThoughtNode;
+  options: CoachingOptions;
+}
+
+type CoachingRule = (context: CoachingContext) => string | undefined;
+
+/**
+ * Checks whether a thought ends the session.
+ */
+function isConclusion(node: ThoughtNode): boolean {
+  return !node.data.next_thought_needed;
+}
+
+const RULES: Record<CoachingRuleId, CoachingRule> = {
+  review_checkpoint: ({ session, node, options }) => {
+    const count = session.graph.size;
+    if (options.reviewInterval <= 0 || isConclusion(node) || count % options.reviewInterval !== 0) {
+      return undefined;
+    }
+    return `Checkpoint after ${count} thoughts: does the reasoning so far still hold? Revise an earlier thought with is_revision if not, branch if an alternative deserves exploring, and adjust total_thoughts if the scope changed.`;
+  },
+
+  no_branch: ({ session, node, options }) => {
+    const { graph } = session;
+    const count = graph.size;
+    if (isConclusion(node) || count < options.branchAfterThoughts || graph.branchIds().length > 0) {
+      return undefined;
+    }
+    // Repeat the hint at each review interval rather than after every thought
+    const since = count - options.branchAfterThoughts;
+    if (since > 0 && (options.reviewInterval <= 0 || since % options.reviewInterval !== 0)) {
+      return undefined;
+    }
+    return `${count} thoughts without a branch. If there is another plausible approach, explore it with branch_from_thought and branch_id before committing to this one.`;
+  },
+
+  total_exceeded: ({ node }) => {
+    const { thought_number, total_thoughts, needs_more_thoughts } = node.data;
+    if (thought_number <= total_thoughts || needs_more_thoughts || isConclusion(node)) {
+      return undefined;
+    }
+    return `thought_number ${thought_number} is past total_thoughts ${total_thoughts}. Raise total_thoughts and set needs_more_thoughts=true if more steps are needed, or work towards a conclusion.`;
+  },
+
+  unverified_revision: ({ session, node }) => {
+    if (!isConclusion(node) || node.previousId === undefined) {
+      return undefined;
+    }
+    const previous = session.graph.get(node.previousId);
+    if (previous?.relation !== 'revision') {
+      return undefined;
+    }
+    return `This conclusion directly follows the revision in thought ${previous.data.thought_number}. Check that the revised reasoning holds, and that later thoughts built on the replaced one still do, before concluding.`;
+  },
+
+  no_alternatives: ({ session, node }) => {
+    if (!isConclusion(node) || session.graph.branchIds().length > 0) {
+      return undefined;
+    }
+    return 'The session concluded without exploring any alternative. Note which other approaches were considered and why they were rejected, or branch to compare one before finalizing.';
+  },
+
+  open_branches: ({ session, node }) => {
+    // Concluding on a branch settles that branch
+    const open = session.graph.openBranchIds().filter(id => id !== node.branchId);
+    if (!isConclusion(node) || open.length === 0) {
+      return undefined;
+    }
+    return `The session concluded with open branches: ${open.join(', ')}. Say what became of each one, merging it with merge_branch_id if its result was used or closing it with abandon_branch_id if it was dropped.`;
+  },
+};
+
+/**
+ * Applies the enabled coaching rules to the latest thought of a session.
+ *
+ * @param session The session after the thought was recorded
+ * @param node The node of the thought
+ * @param options Enabled rules and thresholds
+ * @returns The hints, in rule order
+ */
+export function evaluateCoaching(
+  session: ReasoningSession,
+  node: ThoughtNode,
+  options: CoachingOptions
+): CoachingHint[] {
+  const hints: CoachingHint[] = [];
+  for (const rule of COACHING_RULE_IDS) {
+    if (!options.rules.includes(rule)) continue;
+
+    const message = RULES[rule]({ session, node, options });
+    if (message) {
+      hints.push({ rule, message });
+    }
+  }
+  return hints;
+}
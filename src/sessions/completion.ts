@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Completion gate for concluding thoughts.
+ *
+ * A session can end with next_thought_needed=false while alternatives were
+ * never compared, or after a revision whose consequences were never followed
+ * up. When the gate is enabled, a concluding thought is checked for these
+ * loose ends before it is recorded:
+ * - branches that were neither merged nor abandoned,
+ * - thoughts that followed a revised thought on its line, before the revision
+ *   arrived, and were not revised themselves.
+ *
+ * In `warn` mode the conclusion is accepted with the loose ends as warnings;
+ * in `reject` mode it is rejected until they are resolved.
+ */
+
+import type { ValidatedThoughtData } from '../server.js';
+import type { ThoughtGraph, ThoughtNode } from './graph.js';
+import { ReasoningSession } from './types.js';
+
+/**
+ * How concluding thoughts with loose ends are handled.
+ */
+export const COMPLETION_GATE_MODES = ['off', 'warn', 'reject'] as const;
+
+export type CompletionGateMode = (typeof COMPLETION_GATE_MODES)[number];
+
+/**
+ * Identifies the kind of loose end found.
+ */
+export type LooseEndCode = 'open_branch' | 'unrevisited_thoughts';
+
+/**
+ * Represents something a conclusion leaves unresolved.
+ */
+export interface LooseEnd {
+  code: LooseEndCode;
+  message: string;
+}
+
+/**
+ * Error thrown in reject mode when a conclusion leaves loose ends.
+ */
+export class CompletionGateError extends Error {
+  constructor(
+    public readonly looseEnds: LooseEnd[],
+    public readonly data: ValidatedThoughtData
+  ) {
+    super(
+      `Thought ${data.thought_number} concludes the session with unresolved work: ${looseEnds
+        .map(l => l.message)
+        .join(' ')}`
+    );
+    this.name = 'CompletionGateError';
+  }
+}
+
+/**
+ * Lists the thoughts that built on a replaced thought before its revision
+ * arrived and were not revised themselves.
+ *
+ * @param graph The session's graph
+ * @param replaced The thought that was revised
+ * @param revisionId Id of the revision, or the graph size for a revision not recorded yet
+ * @returns The thoughts in between that still stand as they were
+ */
+function unrevisitedAfter(
+  graph: ThoughtGraph,
+  replaced: ThoughtNode,
+  revisionId: number
+): ThoughtNode[] {
+  return graph
+    .lineNodes(replaced.branchId)
+    .filter(
+      n =>
+        n.id > replaced.id &&
+        n.id < revisionId &&
+        n.relation !== 'revision' &&
+        graph.revisionOf(n.id) === undefined
+    );
+}
+
+/**
+ * Finds the loose ends a concluding thought would leave. The thought is
+ * checked before it is recorded, so branches it merges or abandons and a
+ * thought it revises count as resolved.
+ *
+ * @param session The session the thought is about to join
+ * @param data The validated thought
+ * @returns The loose ends, empty if the thought doesn't conclude or nothing is left open
+ */
+export function findLooseEnds(session: ReasoningSession, data: ValidatedThoughtData): LooseEnd[] {
+  if (data.next_thought_needed) {
+    return [];
+  }
+
+  const { graph } = session;
+  const looseEnds: LooseEnd[] = [];
+
+  // Concluding on a branch settles that branch
+  const settled = new Set([data.branch_id, data.merge_branch_id, data.abandon_branch_id]);
+  for (const branchId of graph.openBranchIds()) {
+    if (settled.has(branchId)) continue;
+
+    looseEnds.push({
+      code: 'open_branch',
+      message: `Branch '${branchId}' is still open; merge it with merge_branch_id or drop it with abandon_branch_id.`,
+    });
+  }
+
+  const revisedNow =
+    data.is_revision && data.revises_thought !== undefined
+      ? graph.findByNumber(data.revises_thought, data.branch_id)
+      : undefined;
+  // Latest revision of each revised thought, by id
+  const revisions = new Map<number, number>();
+  for (const node of graph.getAll()) {
+    if (node.relation === 'revision' && node.parentId !== undefined) {
+      revisions.set(node.parentId, node.id);
+    }
+  }
+  if (revisedNow) {
+    revisions.set(revisedNow.id, graph.size);
+  }
+
+  for (const [replacedId, revisionId] of revisions) {
+    const replaced = graph.get(replacedId) as ThoughtNode;
+    const unrevisited = unrevisitedAfter(graph, replaced, revisionId).filter(
+      n => n.id !== revisedNow?.id
+    );
+    if (unrevisited.length === 0) continue;
+
+    const numbers = unrevisited.map(n => n.data.thought_number).join(', ');
+    const revision = graph.get(revisionId)?.data.thought_number ?? data.thought_number;
+    looseEnds.push({
+      code: 'unrevisited_thoughts',
+      message: `Thought ${replaced.data.thought_number} was revised in thought ${revision}, but thoughts built on it (${numbers}) were never revisited; revise each of them, if only to confirm it still holds.`,
+    });
+  }
+
+  return looseEnds;
+}
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Thought graph for reasoning sessions.
+ *
+ * Every thought recorded in a session becomes a node with a parent link:
+ * - the previous thought on the same line for ordinary thoughts,
+ * - the `branch_from_thought` origin for the first thought of a branch,
+ * - the `revises_thought` target for revisions.
+ *
+ * Nodes also remember the thought that preceded them on their line, so the
+ * graph can answer questions such as "which path led to this thought",
+ * "which thoughts were superseded" and "which alternatives share a parent".
+ *
+ * Branches stay open until a thought merges them back (`merge_branch_id`) or
+ * abandons them (`abandon_branch_id`); the status is derived from the thoughts,
+ * so it survives a restart like everything else in the graph.
+ */
+
+import type { ValidatedThoughtData } from '../server.js';
+
+/**
+ * How a node is connected to its parent.
+ */
+export type ThoughtRelation = 'root' | 'sequence' | 'branch' | 'revision';
+
+/**
+ * Whether a branch is still being explored, or was closed by a later thought.
+ */
+export type BranchStatus = 'open' | 'merged' | 'abandoned';
+
+/**
+ * Status of a branch and the thought that closed it.
+ */
+export interface BranchState {
+  status: BranchStatus;
+  /** The thought that merged or abandoned the branch, undefined while it is open */
+  closedBy?: ThoughtNode;
+}
+
+/**
+ * Represents a single thought in the graph.
+ */
+export interface ThoughtNode {
+  /** Position of the thought in the session, starting at 0 */
+  id: number;
+  data: ValidatedThoughtData;
+  /** Branch the node belongs to, undefined for the main line */
+  branchId: string | undefined;
+  relation: ThoughtRelation;
+  parentId: number | undefined;
+  /** Previous node on the same line, undefined for the first node of a line */
+  previousId: number | undefined;
+}
+
+/**
+ * Directed graph of the thoughts in one session.
+ */
+export class ThoughtGraph {
+  private readonly nodes: ThoughtNode[] = [];
+
+  /**
+   * Number of thoughts in the graph.
+   */
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  /**
+   * Adds a thought and links it to its parent.
+   *
+   * When a revision target or branch origin can't be found, the node falls back
+   * to following the previous thought on its line.
+   *
+   * @param data The validated thought
+   * @returns The new node
+   */
+  add(data: ValidatedThoughtData): ThoughtNode {
+    const branchId = data.branch_id;
+    const previous = this.lineNodes(branchId).at(-1);
+
+    let relation: ThoughtRelation = previous ? 'sequence' : 'root';
+    let parent = previous;
+
+    if (data.is_revision && data.revises_thought !== undefined) {
+      const target = this.findByNumber(data.revises_thought, branchId);
+      if (target) {
+        relation = 'revision';
+        parent = target;
+      }
+    } else if (branchId !== undefined && !previous && data.branch_from_thought !== undefined) {
+      const origin = this.findByNumber(data.branch_from_thought);
+      if (origin) {
+        relation = 'branch';
+        parent = origin;
+      }
+    }
+
+    const node: ThoughtNode = {
+      id: this.nodes.length,
+      data,
+      branchId,
+      relation,
+      parentId: parent?.id,
+      previousId: previous?.id,
+    };
+    this.nodes.push(node);
+    return node;
+  }
+
+  /**
+   * Gets a node by id.
+   */
+  get(id: number): ThoughtNode | undefined {
+    return this.nodes[id];
+  }
+
+  /**
+   * Gets all nodes in the order they were added.
+   */
+  getAll(): readonly ThoughtNode[] {
+    return this.nodes;
+  }
+
+  /**
+   * Gets the most recently added node.
+   */
+  latest(): ThoughtNode | undefined {
+    return this.nodes.at(-1);
+  }
+
+  /**
+   * Gets the nodes of one line in the order they were added.
+   *
+   * @param branchId The branch to list, or undefined for the main line
+   */
+  lineNodes(branchId: string | undefined): ThoughtNode[] {
+    return this.nodes.filter(n => n.branchId === branchId);
+  }
+
+  /**
+   * Gets the ids of all branches in the order they were opened.
+   */
+  branchIds(): string[] {
+    return Array.from(
+      new Set(this.nodes.map(n => n.branchId).filter((id): id is string => id !== undefined))
+    );
+  }
+
+  /**
+   * Gets the status of a branch. The first thought that merges or abandons the
+   * open branch closes it, and a thought added to the branch afterwards reopens it.
+   *
+   * @param branchId The branch to look up
+   */
+  branchState(branchId: string): BranchState {
+    let state: BranchState = { status: 'open' };
+    for (const node of this.nodes) {
+      if (node.branchId === branchId) {
+        state = { status: 'open' };
+      } else if (state.status !== 'open') {
+        continue;
+      } else if (node.data.merge_branch_id === branchId) {
+        state = { status: 'merged', closedBy: node };
+      } else if (node.data.abandon_branch_id === branchId) {
+        state = { status: 'abandoned', closedBy: node };
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Gets the ids of the branches that were neither merged nor abandoned.
+   */
+  openBranchIds(): string[] {
+    return this.branchIds().filter(id => this.branchState(id).status === 'open');
+  }
+
+  /**
+   * Finds the latest node with a given thought number. Nodes on the preferred
+   * line win over nodes with the same number on other lines.
+   *
+   * @param thoughtNumber The thought number to look up
+   * @param branchId The preferred line, undefined for the main line
+   */
+  findByNumber(thoughtNumber: number, branchId?: string): ThoughtNode | undefined {
+    const matches = this.nodes.filter(n => n.data.thought_number === thoughtNumber);
+    return matches.filter(n => n.branchId === branchId).at(-1) ?? matches.at(-1);
+  }
+
+  /**
+   * Gets the direct children of a node.
+   */
+  children(id: number): ThoughtNode[] {
+    return this.nodes.filter(n => n.parentId === id);
+  }
+
+  /**
+   * Gets the other children of a node's parent, i.e. the alternatives that
+   * were explored from the same point.
+   */
+  branchSiblings(id: number): ThoughtNode[] {
+    const parentId = this.nodes[id]?.parentId;
+    if (parentId === undefined) {
+      return [];
+    }
+    return this.children(parentId).filter(n => n.id !== id);
+  }
+
+  /**
+   * Gets the path of thoughts that led to a node as it stands now, from the
+   * first thought of the session to the node itself. Branch nodes continue into
+   * the line they were branched from, and a revised thought is replaced by its
+   * latest revision in place, so the path never contains superseded thoughts.
+   *
+   * @param id The node to trace, defaults to the latest node
+   */
+  activePath(id: number | undefined = this.latest()?.id): ThoughtNode[] {
+    const line: ThoughtNode[] = [];
+    let node = id !== undefined ? this.nodes[id] : undefined;
+
+    while (node) {
+      line.unshift(node);
+      const nextId = node.previousId ?? (node.relation === 'branch' ? node.parentId : undefined);
+      node = nextId !== undefined ? this.nodes[nextId] : undefined;
+    }
+
+    const onLine = new Set(line.map(n => n.id));
+    return (
+      line
+        // A revision of a thought on the path takes that thought's place instead
+        .filter(n => !(n.relation === 'revision' && onLine.has(n.parentId as number)))
+        .map(n => this.currentVersion(n))
+    );
+  }
+
+  /**
+   * Follows the revisions of a node to the one that replaces it now.
+   *
+   * @returns The latest revision, or the node itself if it was never revised
+   */
+  private currentVersion(node: ThoughtNode): ThoughtNode {
+    let current = node;
+    for (let revision = this.revisionOf(current.id); revision; ) {
+      current = revision;
+      revision = this.revisionOf(current.id);
+    }
+    return current;
+  }
+
+  /**
+   * Gets the revision that most recently replaced a node.
+   *
+   * @returns The revising node, or undefined if the node was never revised
+   */
+  revisionOf(id: number): ThoughtNode | undefined {
+    return this.nodes.filter(n => n.relation === 'revision' && n.parentId === id).at(-1);
+  }
+
+  /**
+   * Gets all nodes that have been replaced by a revision.
+   */
+  superseded(): ThoughtNode[] {
+    return this.nodes.filter(n => this.revisionOf(n.id) !== undefined);
+  }
+}
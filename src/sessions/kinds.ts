@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Thought kinds, tags and hypothesis tracking.
+ *
+ * A thought can say what kind of step it is (a hypothesis, an observation, an
+ * experiment, ...) and carry free-form tags. Kinds give each thought its own
+ * header in the logs, and kinds and tags together let summaries and exports
+ * be narrowed down to the thoughts that matter to a reader.
+ *
+ * Hypotheses also have a status: a later thought confirms or refutes one with
+ * `confirms_hypothesis` or `refutes_hypothesis`, which is what a bug analysis
+ * report is organised by.
+ */
+
+import type { ThoughtGraph, ThoughtNode } from './graph.js';
+
+/**
+ * Kinds of thoughts.
+ */
+export const THOUGHT_KINDS = [
+  'hypothesis',
+  'observation',
+  'experiment',
+  'decision',
+  'conclusion',
+  'question',
+] as const;
+
+export type ThoughtKind = (typeof THOUGHT_KINDS)[number];
+
+/**
+ * Header icon and label of each kind.
+ */
+export const THOUGHT_KIND_LABELS: Record<ThoughtKind, { icon: string; label: string }> = {
+  hypothesis: { icon: '💡', label: 'Hypothesis' },
+  observation: { icon: '👀', label: 'Observation' },
+  experiment: { icon: '🧪', label: 'Experiment' },
+  decision: { icon: '⚖️', label: 'Decision' },
+  conclusion: { icon: '🏁', label: 'Conclusion' },
+  question: { icon: '❓', label: 'Question' },
+};
+
+/**
+ * Selects thoughts by kind and tags. An empty filter selects every thought.
+ */
+export interface ThoughtFilter {
+  /** Thoughts of any of these kinds */
+  kinds?: readonly ThoughtKind[];
+  /** Thoughts carrying all of these tags, compared case-insensitively */
+  tags?: readonly string[];
+}
+
+/**
+ * Checks whether a filter selects anything less than every thought.
+ */
+export function isFiltering(filter: ThoughtFilter | undefined): filter is ThoughtFilter {
+  return (filter?.kinds?.length ?? 0) > 0 || (filter?.tags?.length ?? 0) > 0;
+}
+
+/**
+ * Checks whether a thought is selected by a filter.
+ *
+ * @param node The thought to check
+ * @param filter Kinds and tags to select, undefined to select every thought
+ * @returns True if the thought matches every part of the filter
+ */
+export function matchesFilter(node: ThoughtNode, filter: ThoughtFilter | undefined): boolean {
+  const { kind, tags = [] } = node.data;
+  if (filter?.kinds?.length && (kind === undefined || !filter.kinds.includes(kind))) {
+    return false;
+  }
+  const own = new Set(tags.map(t => t.toLowerCase()));
+  return (filter?.tags ?? []).every(t => own.has(t.toLowerCase()));
+}
+
+/**
+ * Describes a filter for report headings, e.g. "kind hypothesis, tag cache".
+ */
+export function describeFilter(filter: ThoughtFilter): string {
+  const parts = [
+    ...(filter.kinds?.length ? [`kind ${filter.kinds.join(' or ')}`] : []),
+    ...(filter.tags?.length ? [`tag ${filter.tags.join(' and ')}`] : []),
+  ];
+  return parts.join(', ');
+}
+
+/**
+ * Whether a hypothesis still needs testing, or was settled by a later thought.
+ */
+export type HypothesisStatus = 'open' | 'confirmed' | 'refuted';
+
+/**
+ * A hypothesis, its status and the thoughts that confirmed or refuted it.
+ */
+export interface HypothesisState {
+  node: ThoughtNode;
+  status: HypothesisStatus;
+  /** Thoughts that confirmed or refuted the hypothesis, in order; the latest sets the status */
+  evidence: ThoughtNode[];
+}
+
+/**
+ * Collects the hypotheses of a session with their status. Hypotheses replaced
+ * by a revision are left out, and so is evidence from replaced thoughts.
+ *
+ * @param graph The session's graph
+ * @returns The hypotheses in the order they were made
+ */
+export function hypothesisStates(graph: ThoughtGraph): HypothesisState[] {
+  const states = new Map<number, HypothesisState>();
+
+  for (const node of graph.getAll()) {
+    if (graph.revisionOf(node.id) !== undefined) continue;
+
+    if (node.data.kind === 'hypothesis') {
+      states.set(node.id, { node, status: 'open', evidence: [] });
+    }
+
+    const verdicts: [number | undefined, HypothesisStatus][] = [
+      [node.data.confirms_hypothesis, 'confirmed'],
+      [node.data.refutes_hypothesis, 'refuted'],
+    ];
+    for (const [thoughtNumber, status] of verdicts) {
+      if (thoughtNumber === undefined) continue;
+
+      const target = graph.findByNumber(thoughtNumber, node.branchId);
+      const state = target ? states.get(target.id) : undefined;
+      if (state) {
+        state.status = status;
+        state.evidence.push(node);
+      }
+    }
+  }
+  return Array.from(states.values());
+}
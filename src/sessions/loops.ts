@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Detection of repetitive, looping thoughts.
+ *
+ * Models sometimes restate the same thought with small wording changes until
+ * they run out of thoughts. Each new thought is compared with the earlier
+ * thoughts of its session by the overlap of their word shingles (runs of
+ * consecutive words in normalized text), measured as Jaccard similarity.
+ * Everything runs locally; no external service is involved.
+ */
+
+import type { ValidatedThoughtData } from '../server.js';
+import type { ThoughtNode } from './graph.js';
+import { ReasoningSession } from './types.js';
+
+// Number of consecutive words in a shingle
+const SHINGLE_SIZE = 3;
+
+/**
+ * Settings of loop detection.
+ */
+export interface LoopDetectionOptions {
+  /** Jaccard similarity (0-1) at which a thought counts as a repeat */
+  threshold: number;
+  /** Repeats accepted per session before further ones are rejected, 0 to never reject */
+  maxRepeats: number;
+}
+
+/**
+ * An earlier thought that a new thought repeats.
+ */
+export interface LoopMatch {
+  node: ThoughtNode;
+  /** Jaccard similarity of the two thoughts, 0-1 */
+  similarity: number;
+}
+
+/**
+ * Error thrown when a session has repeated itself more often than allowed.
+ */
+export class ThoughtLoopError extends Error {
+  constructor(
+    public readonly match: LoopMatch,
+    public readonly repeats: number
+  ) {
+    super(
+      `Thought repeats thought ${match.node.data.thought_number} (${Math.round(match.similarity * 100)}% similar) after ${repeats} earlier repeats in this session.`
+    );
+    this.name = 'ThoughtLoopError';
+  }
+}
+
+/**
+ * Normalizes text and splits it into word shingles. Text shorter than a
+ * shingle is represented by its words.
+ *
+ * @param text The text to split
+ * @returns The set of shingles
+ */
+export function shingles(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(word => word !== '');
+
+  if (words.length < SHINGLE_SIZE) {
+    return new Set(words);
+  }
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+/**
+ * Computes the Jaccard similarity of two shingle sets.
+ *
+ * @returns The size of the intersection divided by the size of the union, 0-1
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Per-session state: the shingles of every thought, computed once, and the
+ * number of repeats accepted so far.
+ */
+interface SessionLoopState {
+  shingles: Map<number, Set<string>>;
+  repeats: number;
+}
+
+/**
+ * Finds thoughts that repeat earlier thoughts of their session.
+ */
+export class LoopDetector {
+  // Keyed by session object, so state goes away with sessions that are closed
+  private readonly state = new WeakMap<ReasoningSession, SessionLoopState>();
+
+  /**
+   * Creates a new LoopDetector.
+   *
+   * @param options Similarity threshold and repeat limit
+   */
+  constructor(private readonly options: LoopDetectionOptions) {}
+
+  /**
+   * Finds the earlier thought most similar to a new one, if it is similar
+   * enough to count as a repeat. A revision is not compared with the thought
+   * it replaces, since restating it with corrections is its purpose.
+   *
+   * @param session The session the thought is about to join
+   * @param data The validated thought
+   * @returns The repeated thought, or undefined
+   * @throws ThoughtLoopError if the session already used up its repeats
+   */
+  check(session: ReasoningSession, data: ValidatedThoughtData): LoopMatch | undefined {
+    const state = this.stateOf(session);
+    const candidate = shingles(data.thought);
+    const revised = data.is_revision
+      ? session.graph.findByNumber(data.revises_thought as number, data.branch_id)?.id
+      : undefined;
+
+    let best: LoopMatch | undefined;
+    for (const node of session.graph.getAll()) {
+      if (node.id === revised) continue;
+
+      let nodeShingles = state.shingles.get(node.id);
+      if (!nodeShingles) {
+        nodeShingles = shingles(node.data.thought);
+        state.shingles.set(node.id, nodeShingles);
+      }
+      const similarity = jaccard(candidate, nodeShingles);
+      if (similarity >= this.options.threshold && similarity > (best?.similarity ?? 0)) {
+        best = { node, similarity };
+      }
+    }
+
+    if (best && this.options.maxRepeats > 0 && state.repeats >= this.options.maxRepeats) {
+      throw new ThoughtLoopError(best, state.repeats);
+    }
+    return best;
+  }
+
+  /**
+   * Counts an accepted repeat towards the session's limit.
+   *
+   * @param session The session the repeat was recorded in
+   * @returns The number of repeats in the session so far
+   */
+  recordRepeat(session: ReasoningSession): number {
+    return ++this.stateOf(session).repeats;
+  }
+
+  private stateOf(session: ReasoningSession): SessionLoopState {
+    let state = this.state.get(session);
+    if (!state) {
+      state = { shingles: new Map(), repeats: 0 };
+      this.state.set(session, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Session manager for reasoning sessions.
+ *
+ * This class keeps track of every reasoning session handled by the server and
+ * decides which session an incoming thought belongs to. A new session begins
+ * automatically when thought_number resets to 1, or explicitly when a
+ * session_id is supplied. When a SessionStore is provided, every session is
+ * persisted as it grows and sessions unknown to this process are resumed from disk.
+ *
+ * When an idle timeout is configured, a session that receives no thought
+ * within that time is closed: it is dropped from memory, archived in the
+ * store, and later thoughts for it are rejected with a SessionClosedError.
+ *
+ * The manager emits a 'created' event when a new session records its first
+ * thought, a 'thought' event for every thought recorded, and a 'closed' event
+ * when a session is closed.
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import type { ValidatedThoughtData } from '../server.js';
+import { createLogger, type Logger } from '../utils/logger.js';
+import { ThoughtGraph, type ThoughtNode } from './graph.js';
+import { describeSession, SessionStore } from './store.js';
+import { ReasoningSession, SessionMetadata, SessionOrigin, StoredSession } from './types.js';
+
+const defaultLog = createLogger('sessions');
+
+/**
+ * Events emitted by the SessionManager.
+ */
+export interface SessionManagerEvents {
+  created: [session: ReasoningSession];
+  thought: [session: ReasoningSession, node: ThoughtNode];
+  closed: [session: ReasoningSession];
+}
+
+/**
+ * Error thrown when a thought is sent to a session that has been closed.
+ */
+export class SessionClosedError extends Error {
+  constructor(public readonly sessionId: string) {
+    super(`Session ${sessionId} was closed after a period of inactivity.`);
+    this.name = 'SessionClosedError';
+  }
+}
+
+/**
+ * Rebuilds a session's thought graph from its stored thoughts.
+ *
+ * @param stored The stored session
+ * @returns The restored session
+ */
+export function restoreSession(stored: StoredSession): ReasoningSession {
+  const session: ReasoningSession = {
+    id: stored.id,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    graph: new ThoughtGraph(),
+    ...(stored.origin && { origin: stored.origin }),
+  };
+  for (const thought of stored.thoughts) {
+    session.graph.add(thought);
+  }
+  return session;
+}
+
+/**
+ * Manages reasoning sessions and their thought histories.
+ */
+export class SessionManager extends EventEmitter<SessionManagerEvents> {
+  private readonly sessions = new Map<string, ReasoningSession>();
+  private readonly idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly closedIds = new Set<string>();
+  private currentId: string | undefined;
+  private lastClosedId: string | undefined;
+  private pendingOrigin: SessionOrigin | undefined;
+
+  /**
+   * Creates a new SessionManager.
+   *
+   * @param store Optional store used to persist and resume sessions
+   * @param idleTimeoutMs Close a session when no thought arrives within this time. 0 disables it.
+   * @param log Logger for session events
+   */
+  constructor(
+    private readonly store?: SessionStore,
+    private readonly idleTimeoutMs = 0,
+    private readonly log: Logger = defaultLog
+  ) {
+    super();
+  }
+
+  /**
+   * Gets the session that was most recently written to.
+   *
+   * @returns The current session or undefined if no thought has been recorded yet
+   */
+  getCurrent(): ReasoningSession | undefined {
+    return this.currentId ? this.sessions.get(this.currentId) : undefined;
+  }
+
+  /**
+   * Gets a specific session by id.
+   *
+   * @param id The id of the session to retrieve
+   * @returns The session or undefined if not found
+   */
+  get(id: string): ReasoningSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Gets all known sessions.
+   *
+   * @returns An array of all sessions, oldest first
+   */
+  getAll(): ReasoningSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Records the prompt the client fetched, so the next new session can be traced
+   * back to it, e.g. to turn an architecture-decision session into an ADR.
+   *
+   * @param origin The prompt and its arguments
+   */
+  setPendingOrigin(origin: SessionOrigin): void {
+    this.pendingOrigin = origin;
+  }
+
+  /**
+   * Determines which session a thought belongs to.
+   *
+   * The returned session is not registered, nor made the current one, until a
+   * thought is appended to it, so a thought that later fails validation never
+   * leaves an empty session behind or switches to another session.
+   *
+   * @param data The validated thought
+   * @returns The existing or newly created session for the thought
+   * @throws SessionClosedError if the thought continues a session that was closed
+   */
+  resolve(data: ValidatedThoughtData): ReasoningSession {
+    if (data.session_id) {
+      if (this.closedIds.has(data.session_id) || this.store?.isArchived(data.session_id)) {
+        throw new SessionClosedError(data.session_id);
+      }
+      return this.load(data.session_id) ?? this.create(data.session_id);
+    }
+
+    const current = this.getCurrent();
+    if (data.thought_number === 1) {
+      return this.create();
+    }
+    if (!current && this.lastClosedId) {
+      throw new SessionClosedError(this.lastClosedId);
+    }
+    return current ?? this.create();
+  }
+
+  /**
+   * Gets a session by id, loading it from the store if this process hasn't seen it yet.
+   * The current session is left unchanged.
+   *
+   * @param id The id of the session to load
+   * @returns The session or undefined if it is neither in memory nor stored
+   */
+  load(id: string): ReasoningSession | undefined {
+    const existing = this.sessions.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const stored = this.store?.load(id);
+    if (!stored) {
+      return undefined;
+    }
+
+    const session = restoreSession(stored);
+    this.sessions.set(session.id, session);
+    this.log.info('Loaded session', { session: session.id, thoughts: stored.thoughts.length });
+    return session;
+  }
+
+  /**
+   * Gets a session by id for reading, e.g. to list or export it. A session
+   * read from the store is neither cached nor made current, so reading many
+   * stored sessions doesn't keep them in memory.
+   *
+   * @param id The id of the session to read
+   * @returns The session or undefined if it is neither in memory nor stored
+   */
+  peek(id: string): ReasoningSession | undefined {
+    const existing = this.sessions.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const stored = this.store?.load(id);
+    return stored && restoreSession(stored);
+  }
+
+  /**
+   * Gets a closed session from the archive. Archived sessions are read-only, so
+   * the session is neither cached nor made current.
+   *
+   * @param id The id of the session to load
+   * @returns The session or undefined if it isn't archived
+   */
+  loadArchived(id: string): ReasoningSession | undefined {
+    const stored = this.store?.loadArchived(id);
+    return stored && restoreSession(stored);
+  }
+
+  /**
+   * Lists the metadata of all sessions, including stored sessions not yet loaded.
+   * Sessions in memory are described as they are now, without reading their files.
+   *
+   * @returns The metadata of every session, those in memory first
+   */
+  listMetadata(): SessionMetadata[] {
+    const inMemory = this.getAll().map(s =>
+      describeSession(
+        s.id,
+        s.updatedAt,
+        s.graph.getAll().map(n => n.data)
+      )
+    );
+    return [...inMemory, ...(this.store?.listMetadata(new Set(this.sessions.keys())) ?? [])];
+  }
+
+  /**
+   * Records a thought in a session and makes that session the current one.
+   *
+   * @param session The session returned by resolve()
+   * @param data The validated thought to record
+   * @returns The node of the recorded thought
+   */
+  append(session: ReasoningSession, data: ValidatedThoughtData): ThoughtNode {
+    const node = session.graph.add(data);
+    session.updatedAt = new Date().toISOString();
+
+    const isNew = !this.sessions.has(session.id);
+    this.sessions.set(session.id, session);
+    this.currentId = session.id;
+    this.lastClosedId = undefined;
+    this.store?.save(session);
+    this.scheduleIdleClose(session.id);
+
+    if (isNew) {
+      // A recorded prompt applies to one new session at most, even one resolved before it
+      this.pendingOrigin = undefined;
+      this.emit('created', session);
+    }
+    this.emit('thought', session, node);
+    return node;
+  }
+
+  /**
+   * Closes a session: drops it from memory and archives it in the store.
+   * Later thoughts for the session are rejected.
+   *
+   * @param id The id of the session to close
+   */
+  close(id: string): void {
+    clearTimeout(this.idleTimers.get(id));
+    this.idleTimers.delete(id);
+
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(id);
+    this.closedIds.add(id);
+    if (this.currentId === id) {
+      this.currentId = undefined;
+      this.lastClosedId = id;
+    }
+    this.store?.archive(id);
+
+    this.log.info('Closed session', { session: id, thoughts: session.graph.size });
+    this.emit('closed', session);
+  }
+
+  /**
+   * Stops all idle timers without closing their sessions, e.g. when the client disconnects.
+   */
+  dispose(): void {
+    for (const timer of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.idleTimers.clear();
+  }
+
+  /**
+   * Restarts the idle timer of a session.
+   */
+  private scheduleIdleClose(id: string): void {
+    if (this.idleTimeoutMs <= 0) {
+      return;
+    }
+
+    clearTimeout(this.idleTimers.get(id));
+    const timer = setTimeout(() => {
+      this.log.debug('Session idle timeout reached', { session: id, idleMs: this.idleTimeoutMs });
+      this.close(id);
+    }, this.idleTimeoutMs);
+    // An idle timer alone must not keep the process alive
+    timer.unref();
+    this.idleTimers.set(id, timer);
+  }
+
+  /**
+   * Creates an empty session, started from the prompt recorded by setPendingOrigin() if any.
+   *
+   * @param id Optional explicit id. A random id is generated when omitted.
+   */
+  private create(id: string = randomUUID()): ReasoningSession {
+    const now = new Date().toISOString();
+    return {
+      id,
+      createdAt: now,
+      updatedAt: now,
+      graph: new ThoughtGraph(),
+      ...(this.pendingOrigin && { origin: this.pendingOrigin }),
+    };
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Progress and stall metrics of a reasoning session.
+ *
+ * `total_thoughts` is the model's running estimate of how long the chain
+ * will be, and models tend to keep raising it instead of converging. The
+ * metrics in this module compare the estimate with the thoughts actually
+ * recorded, and count the thoughts since the last milestone: a branch, a
+ * revision or a conclusion. A long run of thoughts without one is a stall.
+ * Everything is derived from the thought graph, so restored sessions report
+ * the same metrics as live ones.
+ */
+
+import type { ThoughtNode } from './graph.js';
+import { ReasoningSession } from './types.js';
+
+// Warn about drift once the estimate reaches this multiple of the first one
+const DRIFT_FACTOR = 2;
+
+/**
+ * Settings of stall detection.
+ */
+export interface ProgressOptions {
+  /** Thoughts without a milestone after which a session counts as stalled, 0 to disable */
+  stallAfter: number;
+}
+
+/**
+ * Progress of a session, as reported in tool responses and summaries.
+ */
+export interface SessionProgress {
+  /** thought_number divided by total_thoughts of the latest thought; above 1 when past the estimate */
+  ratio: number;
+  /** total_thoughts of the first thought */
+  initial_estimate: number;
+  /** total_thoughts of the latest thought */
+  current_estimate: number;
+  /** How often total_thoughts was raised */
+  estimate_raises: number;
+  /** Thoughts since the latest branch, revision or conclusion, or since the start */
+  thoughts_since_milestone: number;
+  stalled: boolean;
+}
+
+/**
+ * Checks whether a thought is a milestone: it branches, revises or concludes.
+ */
+function isMilestone(node: ThoughtNode): boolean {
+  return (
+    node.relation === 'branch' || node.relation === 'revision' || !node.data.next_thought_needed
+  );
+}
+
+/**
+ * Measures the progress of a session.
+ *
+ * @param session The session to measure
+ * @param options Stall threshold
+ * @returns The progress metrics, all 0 for a session without thoughts
+ */
+export function measureProgress(
+  session: ReasoningSession,
+  options: ProgressOptions
+): SessionProgress {
+  const nodes = session.graph.getAll();
+  const latest = nodes.at(-1);
+
+  let raises = 0;
+  for (let i = 1; i < nodes.length; i++) {
+    if (nodes[i].data.total_thoughts > nodes[i - 1].data.total_thoughts) raises++;
+  }
+
+  let sinceMilestone = 0;
+  while (sinceMilestone < nodes.length && !isMilestone(nodes[nodes.length - 1 - sinceMilestone])) {
+    sinceMilestone++;
+  }
+
+  return {
+    ratio: latest ? +(latest.data.thought_number / latest.data.total_thoughts).toFixed(2) : 0,
+    initial_estimate: nodes[0]?.data.total_thoughts ?? 0,
+    current_estimate: latest?.data.total_thoughts ?? 0,
+    estimate_raises: raises,
+    thoughts_since_milestone: sinceMilestone,
+    stalled: options.stallAfter > 0 && sinceMilestone >= options.stallAfter,
+  };
+}
+
+/**
+ * Describes what the latest thought of a session did to its progress: a
+ * stall, or a raise of the estimate that leaves it far above the first one.
+ *
+ * @param session The session after the thought was recorded
+ * @param progress The session's progress, from measureProgress
+ * @returns Warnings for the tool response, empty when progress looks healthy
+ */
+export function progressWarnings(session: ReasoningSession, progress: SessionProgress): string[] {
+  const warnings: string[] = [];
+  const [previous, latest] = session.graph.getAll().slice(-2);
+
+  if (progress.stalled) {
+    warnings.push(
+      `No branch, revision or conclusion in the last ${progress.thoughts_since_milestone} thoughts. Check whether the reasoning still makes progress: revise a thought that turned out wrong, branch to another approach, or conclude with next_thought_needed=false.`
+    );
+  }
+
+  const raised = previous && latest && latest.data.total_thoughts > previous.data.total_thoughts;
+  if (raised && progress.current_estimate >= progress.initial_estimate * DRIFT_FACTOR) {
+    warnings.push(
+      `total_thoughts grew from ${progress.initial_estimate} to ${progress.current_estimate} over ${progress.estimate_raises} ${progress.estimate_raises === 1 ? 'raise' : 'raises'}. Make sure the extra thoughts are needed rather than postponing a conclusion.`
+    );
+  }
+  return warnings;
+}
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview MCP resources for reasoning sessions.
+ *
+ * Every session is published as `reasoning://session/{session_id}` and every
+ * branch as `reasoning://session/{session_id}/branch/{branch_id}`. Reading a
+ * resource returns both a Markdown and a JSON rendering. Exports of a session
+ * can be read from `reasoning://session/{session_id}/export/{format}`.
+ */
+
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  EXPORT_FORMATS,
+  EXPORT_MIME_TYPES,
+  exportSession,
+  isExportFormat,
+} from '../export/index.js';
+import { exportSessionMarkdown } from '../export/markdown.js';
+import { ReasoningSession, SessionMetadata } from './types.js';
+
+const URI_SCHEME = 'reasoning://';
+const SESSION_URI_PATTERN =
+  /^reasoning:\/\/session\/([^/]+)(?:\/branch\/([^/]+)|\/export\/([^/]+))?$/;
+
+/**
+ * Session and optional branch or export format addressed by a resource URI.
+ */
+export interface ReasoningResourceRef {
+  sessionId: string;
+  branchId?: string;
+  exportFormat?: string;
+}
+
+/**
+ * Resource templates advertised through resources/templates/list.
+ */
+export const REASONING_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${URI_SCHEME}session/{session_id}`,
+    name: 'Reasoning session',
+    description: 'A complete code-reasoning session with all of its thoughts and branches',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${URI_SCHEME}session/{session_id}/branch/{branch_id}`,
+    name: 'Reasoning branch',
+    description: 'The thoughts of a single branch within a code-reasoning session',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${URI_SCHEME}session/{session_id}/export/{format}`,
+    name: 'Reasoning session export',
+    description: `A code-reasoning session exported as a report. Formats: ${EXPORT_FORMATS.join(', ')}`,
+  },
+];
+
+/**
+ * Formats a count with a singular or plural noun.
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Builds the resource URI of a session, or of one of its branches.
+ */
+export function sessionUri(sessionId: string, branchId?: string): string {
+  const base = `${URI_SCHEME}session/${encodeURIComponent(sessionId)}`;
+  return branchId === undefined ? base : `${base}/branch/${encodeURIComponent(branchId)}`;
+}
+
+/**
+ * Parses a resource URI.
+ *
+ * @param uri The URI to parse
+ * @returns The session and branch it addresses, or undefined if it isn't a reasoning URI
+ */
+export function parseSessionUri(uri: string): ReasoningResourceRef | undefined {
+  const match = SESSION_URI_PATTERN.exec(uri);
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    return {
+      sessionId: decodeURIComponent(match[1]),
+      ...(match[2] !== undefined && { branchId: decodeURIComponent(match[2]) }),
+      ...(match[3] !== undefined && { exportFormat: decodeURIComponent(match[3]) }),
+    };
+  } catch {
+    // Malformed percent-encoding
+    return undefined;
+  }
+}
+
+/**
+ * Lists the resources published for a set of sessions.
+ *
+ * @param sessions The metadata of the sessions to publish
+ * @returns One resource per session and one per branch
+ */
+export function listSessionResources(sessions: SessionMetadata[]): Resource[] {
+  return sessions.flatMap(session => {
+    const latest = session.latestThought;
+    const excerpt = latest && latest.length > 80 ? `${latest.slice(0, 77)}...` : latest;
+
+    return [
+      {
+        uri: sessionUri(session.id),
+        name: `Reasoning session ${session.id}`,
+        description: `${pluralize(session.thoughtCount, 'thought')}, last updated ${session.updatedAt}${
+          excerpt ? `: ${excerpt}` : ''
+        }`,
+        mimeType: 'text/markdown',
+      },
+      ...session.branches.map(({ branchId, thoughtCount }) => ({
+        uri: sessionUri(session.id, branchId),
+        name: `Branch ${branchId} of reasoning session ${session.id}`,
+        description: pluralize(thoughtCount, 'thought'),
+        mimeType: 'text/markdown',
+      })),
+    ];
+  });
+}
+
+/**
+ * Renders a session, or one of its branches, as a JSON document.
+ */
+function renderSessionJson(session: ReasoningSession, branchId?: string): string {
+  const nodes = branchId === undefined ? session.graph.getAll() : session.graph.lineNodes(branchId);
+  const document = {
+    session_id: session.id,
+    ...(branchId !== undefined && { branch_id: branchId }),
+    created_at: session.createdAt,
+    updated_at: session.updatedAt,
+    thoughts: nodes.map(n => n.data),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Reads a session or branch resource.
+ *
+ * @param uri The URI that was requested
+ * @param session The session it addresses
+ * @param branchId Optional branch it addresses
+ * @returns The Markdown and JSON renderings
+ * @throws Error if the branch doesn't exist in the session
+ */
+export function readSessionResource(
+  uri: string,
+  session: ReasoningSession,
+  branchId?: string
+): ReadResourceResult {
+  if (branchId !== undefined && !session.graph.branchIds().includes(branchId)) {
+    throw new Error(`Branch not found: ${branchId} in session ${session.id}`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'text/markdown',
+        text: exportSessionMarkdown(session, undefined, branchId),
+      },
+      { uri, mimeType: 'application/json', text: renderSessionJson(session, branchId) },
+    ],
+  };
+}
+
+/**
+ * Reads a session export resource.
+ *
+ * @param uri The URI that was requested
+ * @param session The session it addresses
+ * @param format The export format named in the URI
+ * @returns The exported document
+ * @throws Error if the format isn't supported
+ */
+export function readExportResource(
+  uri: string,
+  session: ReasoningSession,
+  format: string
+): ReadResourceResult {
+  if (!isExportFormat(format)) {
+    throw new Error(
+      `Unsupported export format: ${format} (expected one of ${EXPORT_FORMATS.join(', ')})`
+    );
+  }
+
+  return {
+    contents: [{ uri, mimeType: EXPORT_MIME_TYPES[format], text: exportSession(session, format) }],
+  };
+}
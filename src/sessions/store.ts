@@ -0,0 +1,455 @@
+/**
+ * @fileoverview Persists reasoning sessions to disk.
+ *
+ * Each session is written to its own JSON file in the sessions directory as it
+ * grows, so a reasoning chain survives a restart of the stdio server process
+ * and can be resumed by id. Closed sessions are moved to an archive
+ * subdirectory, where they are kept but no longer listed or resumed.
+ *
+ * Over HTTP, every connection stores its sessions in a directory of its own.
+ * A client that reconnects gets a new connection, so a session it resumes by
+ * id is looked up in the directories of the other connections as well, and
+ * moved over to the new one.
+ *
+ * Files are validated when they are read, so a damaged or hand-edited file is
+ * skipped with a warning instead of breaking every session listing. Listings
+ * are served from metadata kept in memory, and a file is only read again once
+ * it changed on disk. Session files that were not updated within the retention
+ * period are deleted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { SESSIONS_DIR } from '../utils/config.js';
+import { createLogger } from '../utils/logger.js';
+import { THOUGHT_KINDS } from './kinds.js';
+import type { ValidatedThoughtData } from '../server.js';
+import { ReasoningSession, SessionMetadata, StoredSession } from './types.js';
+
+// Session ids become file names, so only allow characters that are safe in a path segment
+const SAFE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+const ARCHIVE_DIR_NAME = 'archive';
+const CONNECTIONS_DIR_NAME = 'connections';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored thoughts passed validation when they were recorded, so only their shape is checked;
+// the limits of the active configuration may have changed since
+const StoredThoughtSchema = z.object({
+  thought: z.string(),
+  thought_number: z.number().int().positive(),
+  total_thoughts: z.number().int().positive(),
+  next_thought_needed: z.boolean(),
+  is_revision: z.boolean().optional(),
+  revises_thought: z.number().int().positive().optional(),
+  branch_from_thought: z.number().int().positive().optional(),
+  branch_id: z.string().optional(),
+  needs_more_thoughts: z.boolean().optional(),
+  merge_branch_id: z.string().optional(),
+  abandon_branch_id: z.string().optional(),
+  confidence: z.number().optional(),
+  assumptions: z.array(z.string()).optional(),
+  open_questions: z.array(z.string()).optional(),
+  answered_questions: z.array(z.string()).optional(),
+  kind: z.enum(THOUGHT_KINDS).optional(),
+  tags: z.array(z.string()).optional(),
+  confirms_hypothesis: z.number().int().positive().optional(),
+  refutes_hypothesis: z.number().int().positive().optional(),
+  session_id: z.string().optional(),
+});
+
+const StoredSessionSchema: z.ZodType<StoredSession> = z.object({
+  id: z.string().regex(SAFE_ID_PATTERN),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  origin: z.object({ prompt: z.string(), arguments: z.record(z.string()) }).optional(),
+  thoughts: z.array(StoredThoughtSchema),
+});
+
+const log = createLogger('sessions');
+
+/**
+ * Gets the sessions directory of an HTTP connection, which keeps the sessions
+ * of each connected client apart from those of the others.
+ *
+ * @param sessionsDir The root sessions directory
+ * @param connectionId The id of the HTTP connection
+ * @returns The directory holding the connection's session files
+ */
+export function connectionSessionsDir(sessionsDir: string, connectionId: string): string {
+  return path.join(sessionsDir, CONNECTIONS_DIR_NAME, connectionId);
+}
+
+/**
+ * Lists the HTTP connections that have a sessions directory under a root sessions directory.
+ */
+function listConnectionIds(sessionsDir: string): string[] {
+  try {
+    return fs
+      .readdirSync(path.join(sessionsDir, CONNECTIONS_DIR_NAME), { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+  } catch {
+    // No HTTP connection stored sessions yet
+    return [];
+  }
+}
+
+/**
+ * Describes a session for a listing.
+ *
+ * @param id The id of the session
+ * @param updatedAt When the session was last updated
+ * @param thoughts The thoughts of the session in the order they were recorded
+ * @returns The metadata of the session
+ */
+export function describeSession(
+  id: string,
+  updatedAt: string,
+  thoughts: readonly ValidatedThoughtData[]
+): SessionMetadata {
+  const branchCounts = new Map<string, number>();
+  for (const { branch_id } of thoughts) {
+    if (branch_id !== undefined) {
+      branchCounts.set(branch_id, (branchCounts.get(branch_id) ?? 0) + 1);
+    }
+  }
+
+  return {
+    id,
+    updatedAt,
+    thoughtCount: thoughts.length,
+    latestThought: thoughts.at(-1)?.thought,
+    branches: Array.from(branchCounts, ([branchId, thoughtCount]) => ({ branchId, thoughtCount })),
+  };
+}
+
+/**
+ * Manages the storage and retrieval of reasoning sessions.
+ */
+export class SessionStore {
+  private readonly sessionsDir: string;
+  private readonly sharedDir: string | undefined;
+  // Metadata of the session files by id, with the modification time it was read at;
+  // undefined for a file that can't be read
+  private readonly metadata = new Map<
+    string,
+    { mtimeMs: number; metadata: SessionMetadata | undefined }
+  >();
+
+  /**
+   * Creates a new SessionStore.
+   *
+   * @param sessionsDir The directory where session files are stored. Defaults to SESSIONS_DIR.
+   * @param sharedDir The root sessions directory, when this store holds the sessions of one HTTP
+   *   connection. Sessions that aren't stored here are looked up there and in the directories
+   *   of the other connections.
+   */
+  constructor(sessionsDir: string = SESSIONS_DIR, sharedDir?: string) {
+    this.sessionsDir = sessionsDir;
+    this.sharedDir = sharedDir;
+
+    if (!fs.existsSync(this.sessionsDir)) {
+      try {
+        fs.mkdirSync(this.sessionsDir, { recursive: true });
+        log.info('Created sessions directory', { dir: this.sessionsDir });
+      } catch (err) {
+        log.error('Failed to create sessions directory', { dir: this.sessionsDir, err });
+      }
+    }
+  }
+
+  /**
+   * Saves a session, replacing any previously stored version.
+   *
+   * @param session The session to save
+   */
+  save(session: ReasoningSession): void {
+    const stored: StoredSession = {
+      id: session.id,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      ...(session.origin && { origin: session.origin }),
+      thoughts: session.graph.getAll().map(n => n.data),
+    };
+
+    try {
+      fs.writeFileSync(this.filePath(session.id), JSON.stringify(stored, null, 2));
+    } catch (err) {
+      log.error('Error saving session', { session: session.id, err });
+      // Don't throw, an unsaved session is still usable in memory
+    }
+  }
+
+  /**
+   * Loads a stored session. A session found in the directory of another HTTP
+   * connection is moved here first, so only the connection that resumed it
+   * writes to it from now on.
+   *
+   * @param id The id of the session to load
+   * @returns The stored session or undefined if it doesn't exist or can't be read
+   */
+  load(id: string): StoredSession | undefined {
+    const filePath = SAFE_ID_PATTERN.test(id) ? this.locate(id, false) : undefined;
+    if (filePath === undefined) {
+      return undefined;
+    }
+
+    if (filePath !== this.filePath(id)) {
+      try {
+        fs.renameSync(filePath, this.filePath(id));
+        log.info('Moved session from another connection', {
+          session: id,
+          from: path.dirname(filePath),
+        });
+      } catch (err) {
+        log.error('Error moving session', { session: id, err });
+        return undefined;
+      }
+    }
+    return this.read(id, this.filePath(id));
+  }
+
+  /**
+   * Loads an archived session, e.g. to export it after it was closed.
+   *
+   * @param id The id of the session to load
+   * @returns The stored session or undefined if it isn't archived or can't be read
+   */
+  loadArchived(id: string): StoredSession | undefined {
+    const filePath = SAFE_ID_PATTERN.test(id) ? this.locate(id, true) : undefined;
+    return filePath === undefined ? undefined : this.read(id, filePath);
+  }
+
+  /**
+   * Finds the file of a session in this directory, or for an HTTP connection
+   * also in the shared sessions directory and those of the other connections.
+   *
+   * @param id The id of the session to find
+   * @param archived Whether to look for the archived file
+   * @returns The path of the file, or undefined if it exists nowhere
+   */
+  private locate(id: string, archived: boolean): string | undefined {
+    const sharedDir = this.sharedDir;
+    const dirs = [this.sessionsDir];
+    if (sharedDir !== undefined) {
+      dirs.push(
+        sharedDir,
+        ...listConnectionIds(sharedDir).map(connectionId =>
+          connectionSessionsDir(sharedDir, connectionId)
+        )
+      );
+    }
+
+    return dirs
+      .map(dir => path.join(archived ? path.join(dir, ARCHIVE_DIR_NAME) : dir, `${id}.json`))
+      .find(filePath => fs.existsSync(filePath));
+  }
+
+  /**
+   * Reads a session file.
+   */
+  private read(id: string, filePath: string): StoredSession | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    let content: unknown;
+    try {
+      content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (err) {
+      log.error('Error loading session', { session: id, err });
+      return undefined;
+    }
+
+    const result = StoredSessionSchema.safeParse(content);
+    if (!result.success) {
+      log.warn('Skipping invalid session file', {
+        file: filePath,
+        issues: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`),
+      });
+      return undefined;
+    }
+    if (result.data.id !== id) {
+      log.warn('Skipping session file stored under another id', {
+        file: filePath,
+        session: result.data.id,
+      });
+      return undefined;
+    }
+    return result.data;
+  }
+
+  /**
+   * Lists the ids of all stored sessions.
+   *
+   * @returns An array of session ids
+   */
+  list(): string[] {
+    try {
+      return fs
+        .readdirSync(this.sessionsDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => path.basename(file, '.json'));
+    } catch (err) {
+      log.error('Error listing sessions', { err });
+      return [];
+    }
+  }
+
+  /**
+   * Lists the metadata of all stored sessions. Only files that changed since
+   * the previous listing are read.
+   *
+   * @param exclude Ids of sessions to leave out, e.g. because they are in memory
+   * @returns The metadata of every readable session file
+   */
+  listMetadata(exclude: ReadonlySet<string> = new Set()): SessionMetadata[] {
+    const ids = this.list();
+    for (const id of this.metadata.keys()) {
+      if (!ids.includes(id)) {
+        this.metadata.delete(id);
+      }
+    }
+
+    return ids
+      .filter(id => !exclude.has(id))
+      .flatMap(id => {
+        let mtimeMs: number;
+        try {
+          mtimeMs = fs.statSync(this.filePath(id)).mtimeMs;
+        } catch {
+          // Removed since it was listed, e.g. archived by another server process
+          this.metadata.delete(id);
+          return [];
+        }
+
+        let cached = this.metadata.get(id);
+        if (cached?.mtimeMs !== mtimeMs) {
+          const stored = this.load(id);
+          cached = {
+            mtimeMs,
+            metadata: stored && describeSession(stored.id, stored.updatedAt, stored.thoughts),
+          };
+          this.metadata.set(id, cached);
+        }
+        return cached.metadata ? [cached.metadata] : [];
+      });
+  }
+
+  /**
+   * Moves a stored session to the archive, so it is no longer listed or loaded.
+   *
+   * @param id The id of the session to archive
+   */
+  archive(id: string): void {
+    if (!SAFE_ID_PATTERN.test(id) || !fs.existsSync(this.filePath(id))) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.join(this.sessionsDir, ARCHIVE_DIR_NAME), { recursive: true });
+      fs.renameSync(this.filePath(id), this.archivePath(id));
+    } catch (err) {
+      log.error('Error archiving session', { session: id, err });
+    }
+  }
+
+  /**
+   * Checks whether a session has been archived.
+   *
+   * @param id The id of the session to check
+   * @returns True if the session is in the archive
+   */
+  isArchived(id: string): boolean {
+    return SAFE_ID_PATTERN.test(id) && this.locate(id, true) !== undefined;
+  }
+
+  /**
+   * Deletes session files, archived ones and those of HTTP connections included,
+   * that were not updated within the retention period. Connection directories
+   * left empty are removed as well.
+   *
+   * @param retentionDays Days to keep session files. 0 keeps them forever.
+   * @returns The number of files deleted
+   */
+  prune(retentionDays: number): number {
+    if (retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const connectionDirs = this.listConnections().map(id =>
+      connectionSessionsDir(this.sessionsDir, id)
+    );
+    // Deleting files touches their directory, so decide which directories are stale first
+    const staleConnectionDirs = connectionDirs.filter(dir => {
+      try {
+        return fs.statSync(dir).mtimeMs < cutoff;
+      } catch {
+        return false;
+      }
+    });
+
+    let removed = 0;
+    for (const dir of [this.sessionsDir, ...connectionDirs].flatMap(root => [
+      root,
+      path.join(root, ARCHIVE_DIR_NAME),
+    ])) {
+      let files: string[];
+      try {
+        files = fs.readdirSync(dir).filter(file => file.endsWith('.json'));
+      } catch {
+        // No archive yet
+        continue;
+      }
+
+      for (const file of files) {
+        const filePath = path.join(dir, file);
+        try {
+          if (fs.statSync(filePath).mtimeMs < cutoff) {
+            fs.unlinkSync(filePath);
+            removed++;
+          }
+        } catch {
+          // Already removed, e.g. by another server process sharing the directory
+        }
+      }
+    }
+
+    for (const dir of staleConnectionDirs) {
+      for (const emptyDir of [path.join(dir, ARCHIVE_DIR_NAME), dir]) {
+        try {
+          fs.rmdirSync(emptyDir);
+        } catch {
+          // Missing, or still holds sessions
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Lists the HTTP connections that have a sessions directory here.
+   *
+   * @returns An array of connection ids
+   */
+  listConnections(): string[] {
+    return listConnectionIds(this.sessionsDir);
+  }
+
+  /**
+   * Gets the file path for a session id.
+   */
+  private filePath(id: string): string {
+    return path.join(this.sessionsDir, `${id}.json`);
+  }
+
+  /**
+   * Gets the archive file path for a session id.
+   */
+  private archivePath(id: string): string {
+    return path.join(this.sessionsDir, ARCHIVE_DIR_NAME, `${id}.json`);
+  }
+}
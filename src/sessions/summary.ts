@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Builds a compact summary of a reasoning session.
+ *
+ * The summary lets the model look back at its own chain without re-reading the
+ * conversation: the path that led to the current thought, the branches it
+ * opened, the thoughts it revised and the latest conclusion it reached,
+ * along with the progress metrics that show whether the chain is converging.
+ */
+
+import type { BranchStatus, ThoughtGraph, ThoughtNode } from './graph.js';
+import {
+  hypothesisStates,
+  isFiltering,
+  matchesFilter,
+  type HypothesisStatus,
+  type ThoughtFilter,
+  type ThoughtKind,
+} from './kinds.js';
+import { measureProgress, type ProgressOptions, type SessionProgress } from './progress.js';
+import { ReasoningSession } from './types.js';
+import { trackUncertainty, type AnsweredQuestion, type TrackedStatement } from './uncertainty.js';
+
+/**
+ * A thought as it appears in a summary.
+ */
+export interface SummaryThought {
+  thought_number: number;
+  thought: string;
+  branch_id?: string;
+  kind?: ThoughtKind;
+  tags?: string[];
+  confidence?: number;
+  superseded?: boolean;
+}
+
+/**
+ * A hypothesis and whether a later thought confirmed or refuted it.
+ */
+export interface SummaryHypothesis {
+  thought_number: number;
+  thought: string;
+  branch_id?: string;
+  status: HypothesisStatus;
+  /** The thought that set the status */
+  settled_by_thought?: number;
+}
+
+/**
+ * A branch as it appears in a summary.
+ */
+export interface SummaryBranch {
+  branch_id: string;
+  branch_from_thought: number | undefined;
+  thought_count: number;
+  latest_thought_number: number;
+  status: BranchStatus;
+  /** Thought that merged or abandoned the branch */
+  closed_by_thought?: number;
+}
+
+/**
+ * A revised thought and the revision that replaced it.
+ */
+export interface SummaryRevision {
+  thought_number: number;
+  revised_by: number;
+}
+
+/**
+ * Summary of a reasoning session.
+ */
+export interface SessionSummary {
+  session_id: string;
+  created_at: string;
+  updated_at: string;
+  thought_count: number;
+  active_path: SummaryThought[];
+  open_branches: SummaryBranch[];
+  closed_branches: SummaryBranch[];
+  revised_thoughts: SummaryRevision[];
+  latest_conclusion: SummaryThought | null;
+  assumptions: TrackedStatement[];
+  open_questions: TrackedStatement[];
+  answered_questions: AnsweredQuestion[];
+  hypotheses: SummaryHypothesis[];
+  progress: SessionProgress;
+  /** Thoughts selected by the kinds and tags filter, only present when filtering */
+  filtered_thoughts?: SummaryThought[];
+}
+
+/**
+ * Lists every thought that was replaced by a revision, with the revision that
+ * replaces it now; a thought revised more than once is listed once.
+ *
+ * @param graph The thought graph of the session
+ * @returns The revised thoughts in the order they were added
+ */
+export function listRevisedThoughts(graph: ThoughtGraph): SummaryRevision[] {
+  return graph.superseded().flatMap(n => {
+    const revision = graph.revisionOf(n.id);
+    return revision
+      ? [{ thought_number: n.data.thought_number, revised_by: revision.data.thought_number }]
+      : [];
+  });
+}
+
+/**
+ * Builds the summary of a session.
+ *
+ * @param session The session to summarize
+ * @param progressOptions Stall threshold for the progress metrics
+ * @param filter Kinds and tags of the thoughts to list as filtered_thoughts
+ * @returns The session summary
+ */
+export function buildSessionSummary(
+  session: ReasoningSession,
+  progressOptions: ProgressOptions,
+  filter?: ThoughtFilter
+): SessionSummary {
+  const { graph } = session;
+  const superseded = new Set(graph.superseded().map(n => n.id));
+
+  const summarize = (n: ThoughtNode): SummaryThought => ({
+    thought_number: n.data.thought_number,
+    thought: n.data.thought,
+    ...(n.branchId !== undefined && { branch_id: n.branchId }),
+    ...(n.data.kind !== undefined && { kind: n.data.kind }),
+    ...(n.data.tags?.length && { tags: n.data.tags }),
+    ...(n.data.confidence !== undefined && { confidence: n.data.confidence }),
+    ...(superseded.has(n.id) && { superseded: true }),
+  });
+
+  const activePath = graph.activePath().map(summarize);
+
+  const hypotheses = hypothesisStates(graph).map(({ node, status, evidence }) => ({
+    thought_number: node.data.thought_number,
+    thought: node.data.thought,
+    ...(node.branchId !== undefined && { branch_id: node.branchId }),
+    status,
+    ...(evidence.length > 0 && { settled_by_thought: evidence.at(-1)?.data.thought_number }),
+  }));
+
+  const branches: SummaryBranch[] = graph.branchIds().map(branchId => {
+    const line = graph.lineNodes(branchId);
+    const { status, closedBy } = graph.branchState(branchId);
+    return {
+      branch_id: branchId,
+      branch_from_thought: line[0]?.data.branch_from_thought,
+      thought_count: line.length,
+      latest_thought_number: line[line.length - 1].data.thought_number,
+      status,
+      ...(closedBy && { closed_by_thought: closedBy.data.thought_number }),
+    };
+  });
+
+  const conclusion = graph
+    .getAll()
+    .filter(n => !n.data.next_thought_needed)
+    .at(-1);
+
+  return {
+    session_id: session.id,
+    created_at: session.createdAt,
+    updated_at: session.updatedAt,
+    thought_count: graph.size,
+    active_path: activePath,
+    open_branches: branches.filter(b => b.status === 'open'),
+    closed_branches: branches.filter(b => b.status !== 'open'),
+    revised_thoughts: listRevisedThoughts(graph),
+    latest_conclusion: conclusion
+      ? {
+          thought_number: conclusion.data.thought_number,
+          thought: conclusion.data.thought,
+          ...(conclusion.branchId !== undefined && { branch_id: conclusion.branchId }),
+          ...(conclusion.data.confidence !== undefined && {
+            confidence: conclusion.data.confidence,
+          }),
+        }
+      : null,
+    ...trackUncertainty(session),
+    hypotheses,
+    progress: measureProgress(session, progressOptions),
+    ...(isFiltering(filter) && {
+      filtered_thoughts: graph
+        .getAll()
+        .filter(n => matchesFilter(n, filter))
+        .map(summarize),
+    }),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Type definitions for reasoning sessions.
+ *
+ * A session groups the thoughts that belong to one problem. Keeping each
+ * session's thought graph separate lets a long-lived server handle
+ * many unrelated problems without state leaking between them.
+ */
+
+import type { ValidatedThoughtData } from '../server.js';
+import type { ThoughtGraph } from './graph.js';
+
+/**
+ * The prompt a session was started from, with the arguments it was filled in with.
+ */
+export interface SessionOrigin {
+  prompt: string;
+  arguments: Record<string, string>;
+}
+
+/**
+ * Represents a single reasoning session and the thoughts recorded in it.
+ */
+export interface ReasoningSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  graph: ThoughtGraph;
+  origin?: SessionOrigin;
+}
+
+/**
+ * What a session listing shows of a session, without its thoughts.
+ */
+export interface SessionMetadata {
+  id: string;
+  updatedAt: string;
+  thoughtCount: number;
+  latestThought?: string;
+  /** Branches in the order they were opened, with the number of thoughts on each */
+  branches: { branchId: string; thoughtCount: number }[];
+}
+
+/**
+ * On-disk representation of a session. The graph is rebuilt from the
+ * thoughts when the session is loaded, so only the thoughts are stored.
+ */
+export interface StoredSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  origin?: SessionOrigin;
+  thoughts: ValidatedThoughtData[];
+}
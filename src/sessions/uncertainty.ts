@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Assumptions and open questions of a reasoning session.
+ *
+ * Thoughts can state the assumptions they rely on, the questions they leave
+ * open and the earlier questions they answer. This module aggregates them over
+ * a session: an assumption stays in force and a question stays open only as
+ * long as the thought that stated it does. Thoughts replaced by a revision and
+ * thoughts on abandoned branches no longer count, so a revision that still
+ * relies on an assumption has to state it again.
+ */
+
+import type { ThoughtGraph, ThoughtNode } from './graph.js';
+import { ReasoningSession } from './types.js';
+
+/**
+ * An assumption or question, with the thought that stated it.
+ */
+export interface TrackedStatement {
+  text: string;
+  thought_number: number;
+  branch_id?: string;
+}
+
+/**
+ * A question and the thought that answered it.
+ */
+export interface AnsweredQuestion extends TrackedStatement {
+  answered_in: number;
+}
+
+/**
+ * Assumptions and questions of a session.
+ */
+export interface SessionUncertainty {
+  /** Assumptions of the thoughts that still stand, in the order they were made */
+  assumptions: TrackedStatement[];
+  open_questions: TrackedStatement[];
+  answered_questions: AnsweredQuestion[];
+}
+
+/**
+ * Normalizes an assumption or question for comparison, so that an answer
+ * matches its question regardless of case, spacing and the question mark.
+ *
+ * @param text The statement as written in a thought
+ * @returns The comparison key
+ */
+export function statementKey(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?.!]+$/, '');
+}
+
+/**
+ * Checks whether a thought still stands: it was not replaced by a revision
+ * and is not on an abandoned branch.
+ */
+function stillStands(graph: ThoughtGraph, node: ThoughtNode): boolean {
+  if (graph.revisionOf(node.id) !== undefined) {
+    return false;
+  }
+  return node.branchId === undefined || graph.branchState(node.branchId).status !== 'abandoned';
+}
+
+/**
+ * Builds a tracked statement from a thought.
+ */
+function statement(text: string, node: ThoughtNode): TrackedStatement {
+  return {
+    text: text.trim(),
+    thought_number: node.data.thought_number,
+    ...(node.branchId !== undefined && { branch_id: node.branchId }),
+  };
+}
+
+/**
+ * Collects the open questions of a session, keyed by statementKey.
+ *
+ * @param session The session to look at
+ * @returns The questions not answered yet
+ */
+export function openQuestions(session: ReasoningSession): Map<string, TrackedStatement> {
+  return new Map(
+    trackUncertainty(session).open_questions.map(q => [statementKey(q.text), q] as const)
+  );
+}
+
+/**
+ * Aggregates the assumptions and questions of a session.
+ *
+ * @param session The session to aggregate
+ * @returns The assumptions in force, and the open and answered questions
+ */
+export function trackUncertainty(session: ReasoningSession): SessionUncertainty {
+  const { graph } = session;
+  const assumptions = new Map<string, TrackedStatement>();
+  const open = new Map<string, TrackedStatement>();
+  const answered: AnsweredQuestion[] = [];
+
+  for (const node of graph.getAll()) {
+    if (!stillStands(graph, node)) continue;
+
+    for (const text of node.data.assumptions ?? []) {
+      const key = statementKey(text);
+      if (!assumptions.has(key)) assumptions.set(key, statement(text, node));
+    }
+    for (const text of node.data.open_questions ?? []) {
+      const key = statementKey(text);
+      if (!open.has(key)) open.set(key, statement(text, node));
+    }
+    for (const text of node.data.answered_questions ?? []) {
+      const key = statementKey(text);
+      const question = open.get(key);
+      if (!question) continue;
+
+      open.delete(key);
+      answered.push({ ...question, answered_in: node.data.thought_number });
+    }
+  }
+
+  return {
+    assumptions: Array.from(assumptions.values()),
+    open_questions: Array.from(open.values()),
+    answered_questions: answered,
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Sequence validation for thoughts within a session.
+ *
+ * ThoughtDataSchema checks each thought in isolation. This module adds the
+ * stateful checks that need the session history: thought numbers must continue
+ * the line they belong to (the main line or a branch, whose first thought
+ * follows the thought it branches from), revisions and
+ * branches must point back to thoughts that already exist, merged or
+ * abandoned branches must be open branches of the session, answered
+ * questions must be open questions of the session, and confirmed or refuted
+ * hypotheses must be hypotheses of the session.
+ */
+
+import type { ThoughtData, ValidatedThoughtData } from '../server.js';
+import { ReasoningSession } from './types.js';
+import { openQuestions, statementKey } from './uncertainty.js';
+
+/**
+ * How sequence problems are handled: rejected with an error, or accepted with warnings.
+ */
+export type SequenceValidationMode = 'strict' | 'lenient';
+
+/**
+ * Identifies the kind of sequence problem found.
+ */
+export type SequenceIssueCode =
+  | 'duplicate_thought_number'
+  | 'skipped_thought_number'
+  | 'out_of_order_thought_number'
+  | 'revision_target_missing'
+  | 'revision_points_forward'
+  | 'branch_origin_missing'
+  | 'branch_points_forward'
+  | 'branch_not_found'
+  | 'branch_already_closed'
+  | 'unknown_question'
+  | 'hypothesis_not_found';
+
+/**
+ * Represents a single sequence problem with a suggested correction.
+ */
+export interface SequenceIssue {
+  code: SequenceIssueCode;
+  message: string;
+  fix: Partial<ThoughtData>;
+}
+
+/**
+ * Error thrown in strict mode when a thought breaks the session's sequence.
+ */
+export class ThoughtSequenceError extends Error {
+  constructor(
+    public readonly issues: SequenceIssue[],
+    public readonly data: ValidatedThoughtData
+  ) {
+    super(issues.map(i => i.message).join(' '));
+    this.name = 'ThoughtSequenceError';
+  }
+}
+
+/**
+ * Checks a thought against the history of the session it is about to join.
+ *
+ * @param session The session the thought belongs to
+ * @param data The validated thought
+ * @returns Array of sequence issues, empty if the thought is consistent
+ */
+export function validateSequence(
+  session: ReasoningSession,
+  data: ValidatedThoughtData
+): SequenceIssue[] {
+  const issues: SequenceIssue[] = [];
+  const { graph } = session;
+  const highest = Math.max(0, ...graph.getAll().map(n => n.data.thought_number));
+
+  // Numbering within the line (main line or branch) --------------------------
+  const line = graph.lineNodes(data.branch_id);
+  const opensBranch = data.branch_id !== undefined && line.length === 0;
+
+  if (opensBranch) {
+    const expected = (data.branch_from_thought ?? 0) + 1;
+    // A number at or below the origin is reported as branch_points_forward below
+    if (data.branch_from_thought !== undefined && data.thought_number > expected) {
+      issues.push({
+        code: 'skipped_thought_number',
+        message: `thought_number ${data.thought_number} skips ahead on new branch '${data.branch_id}'; expected ${expected}, the thought after branch_from_thought.`,
+        fix: { thought_number: expected },
+      });
+    }
+  } else {
+    const lineNumbers = new Set(line.map(n => n.data.thought_number));
+    const last = Math.max(0, ...lineNumbers);
+    const expected = last + 1;
+    const where = data.branch_id ? `branch '${data.branch_id}'` : 'the main line';
+
+    if (lineNumbers.has(data.thought_number)) {
+      issues.push({
+        code: 'duplicate_thought_number',
+        message: `thought_number ${data.thought_number} already exists on ${where}; expected ${expected}.`,
+        fix: { thought_number: expected },
+      });
+    } else if (data.thought_number > expected) {
+      issues.push({
+        code: 'skipped_thought_number',
+        message: `thought_number ${data.thought_number} skips ahead on ${where}; expected ${expected}.`,
+        fix: { thought_number: expected },
+      });
+    } else if (data.thought_number < last) {
+      issues.push({
+        code: 'out_of_order_thought_number',
+        message: `thought_number ${data.thought_number} is lower than the last thought on ${where} (${last}); expected ${expected}.`,
+        fix: { thought_number: expected },
+      });
+    }
+  }
+
+  // Revision targets ---------------------------------------------------------
+  if (data.revises_thought !== undefined) {
+    if (data.revises_thought >= data.thought_number) {
+      issues.push({
+        code: 'revision_points_forward',
+        message: `revises_thought ${data.revises_thought} must be lower than thought_number ${data.thought_number}.`,
+        fix: { revises_thought: Math.max(1, data.thought_number - 1) },
+      });
+    } else if (!graph.findByNumber(data.revises_thought, data.branch_id)) {
+      issues.push({
+        code: 'revision_target_missing',
+        message: `revises_thought ${data.revises_thought} does not exist in this session.`,
+        fix: { revises_thought: Math.max(1, highest) },
+      });
+    }
+  }
+
+  // Branch origins -----------------------------------------------------------
+  if (data.branch_from_thought !== undefined) {
+    if (data.branch_from_thought >= data.thought_number) {
+      issues.push({
+        code: 'branch_points_forward',
+        message: `branch_from_thought ${data.branch_from_thought} must be lower than thought_number ${data.thought_number}.`,
+        fix: { branch_from_thought: Math.max(1, data.thought_number - 1) },
+      });
+    } else if (!graph.findByNumber(data.branch_from_thought)) {
+      issues.push({
+        code: 'branch_origin_missing',
+        message: `branch_from_thought ${data.branch_from_thought} does not exist in this session.`,
+        fix: { branch_from_thought: Math.max(1, highest) },
+      });
+    }
+  }
+
+  // Closed branches -----------------------------------------------------------
+  const closing: ['merge_branch_id' | 'abandon_branch_id', string | undefined][] = [
+    ['merge_branch_id', data.merge_branch_id],
+    ['abandon_branch_id', data.abandon_branch_id],
+  ];
+  for (const [field, branchId] of closing) {
+    if (branchId === undefined) continue;
+
+    if (!graph.branchIds().includes(branchId)) {
+      issues.push({
+        code: 'branch_not_found',
+        message: `${field} '${branchId}' is not a branch of this session.`,
+        fix: { [field]: graph.openBranchIds().find(id => id !== data.branch_id) },
+      });
+      continue;
+    }
+    const { status, closedBy } = graph.branchState(branchId);
+    if (status !== 'open') {
+      issues.push({
+        code: 'branch_already_closed',
+        message: `${field} '${branchId}' was already ${status} in thought ${closedBy?.data.thought_number}.`,
+        fix: { [field]: undefined },
+      });
+    }
+  }
+
+  // Confirmed and refuted hypotheses ------------------------------------------
+  const verdicts: ['confirms_hypothesis' | 'refutes_hypothesis', number | undefined][] = [
+    ['confirms_hypothesis', data.confirms_hypothesis],
+    ['refutes_hypothesis', data.refutes_hypothesis],
+  ];
+  for (const [field, thoughtNumber] of verdicts) {
+    if (thoughtNumber === undefined) continue;
+
+    const target = graph.findByNumber(thoughtNumber, data.branch_id);
+    if (target?.data.kind !== 'hypothesis') {
+      const latest = graph
+        .getAll()
+        .filter(n => n.data.kind === 'hypothesis')
+        .at(-1);
+      issues.push({
+        code: 'hypothesis_not_found',
+        message: target
+          ? `${field} ${thoughtNumber} is not a hypothesis; record hypotheses with kind 'hypothesis'.`
+          : `${field} ${thoughtNumber} does not exist in this session.`,
+        fix: { [field]: latest?.data.thought_number },
+      });
+    }
+  }
+
+  // Answered questions --------------------------------------------------------
+  if (data.answered_questions !== undefined) {
+    const open = openQuestions(session);
+    const unknown = data.answered_questions.filter(q => !open.has(statementKey(q)));
+    if (unknown.length > 0) {
+      issues.push({
+        code: 'unknown_question',
+        message: `answered_questions ${unknown.map(q => `'${q}'`).join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not an open question of this session.`,
+        fix: { answered_questions: data.answered_questions.filter(q => !unknown.includes(q)) },
+      });
+    }
+  }
+
+  return issues;
+}
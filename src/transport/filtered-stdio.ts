@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Stdio transport that keeps stdout reserved for JSON-RPC.
+ *
+ * Local MCP servers must never write anything but protocol messages to stdout,
+ * yet dependencies occasionally call console.log(). The transport's own
+ * messages go straight to stdout, while every other write to
+ * process.stdout.write is buffered, and only complete, newline-terminated
+ * lines that parse as JSON-RPC messages are forwarded. Anything else is
+ * written to stderr unchanged and counted, so misbehaving dependencies are
+ * visible rather than silently swallowed or corrupting the stream. Keeping the
+ * two apart means a partial line from a dependency can never swallow a response.
+ * A line that grows past MAX_PENDING_LENGTH without ending is not buffered any
+ * further: it goes to stderr as it arrives.
+ */
+
+import process from 'node:process';
+import { StringDecoder } from 'node:string_decoder';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import { type JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('transport');
+
+type WriteCallback = (err?: Error | null) => void;
+type StringEncoding = NonNullable<Parameters<Buffer['toString']>[0]>;
+
+// Longest unfinished line kept in memory while waiting for its end
+const MAX_PENDING_LENGTH = 64 * 1024;
+
+/**
+ * Checks whether a line is a complete JSON-RPC message.
+ */
+function isJsonRpcMessage(line: string): boolean {
+  try {
+    return JSONRPCMessageSchema.safeParse(JSON.parse(line)).success;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stdio server transport that filters everything else written to stdout.
+ */
+export class FilteredStdioServerTransport extends StdioServerTransport {
+  private originalStdoutWrite: typeof process.stdout.write;
+  private readonly writeStdout: (data: string) => boolean;
+  private pending = '';
+  // Whether the current line outgrew the buffer and its rest goes straight to stderr
+  private overflowing = false;
+  private readonly decoder = new StringDecoder('utf8');
+  private diverted = 0;
+
+  constructor() {
+    super();
+
+    // Store the original implementation before making any changes
+    this.originalStdoutWrite = process.stdout.write;
+
+    // Create a bound version that preserves the original context
+    const boundOriginalWrite = this.originalStdoutWrite.bind(process.stdout);
+    this.writeStdout = data => boundOriginalWrite(data);
+
+    // Override with a new function that avoids recursion
+    process.stdout.write = ((
+      data: string | Uint8Array,
+      encodingOrCallback?: string | WriteCallback,
+      callback?: WriteCallback
+    ): boolean => {
+      const done = typeof encodingOrCallback === 'function' ? encodingOrCallback : callback;
+      const encoding = (
+        typeof encodingOrCallback === 'string' ? encodingOrCallback.toLowerCase() : 'utf8'
+      ) as StringEncoding;
+      // Binary writes, and strings in another encoding, may split a multi-byte character
+      let text =
+        typeof data === 'string' && (encoding === 'utf8' || encoding === 'utf-8')
+          ? data
+          : this.decoder.write(
+              typeof data === 'string' ? Buffer.from(data, encoding) : Buffer.from(data)
+            );
+
+      // The rest of an overlong line goes to stderr as it arrives
+      if (this.overflowing) {
+        const newline = text.indexOf('\n');
+        process.stderr.write(newline === -1 ? text : text.slice(0, newline + 1));
+        text = newline === -1 ? '' : text.slice(newline + 1);
+        this.overflowing = newline === -1;
+      }
+      this.pending += text;
+
+      // Forward every complete line that is a JSON-RPC message, divert the rest
+      const forward: string[] = [];
+      let newline: number;
+      while ((newline = this.pending.indexOf('\n')) !== -1) {
+        const line = this.pending.slice(0, newline);
+        this.pending = this.pending.slice(newline + 1);
+
+        if (isJsonRpcMessage(line)) {
+          forward.push(`${line}\n`);
+        } else {
+          this.divert(line);
+        }
+      }
+
+      if (this.pending.length > MAX_PENDING_LENGTH) {
+        // Too long to be a message; stop buffering it and send what's there to stderr
+        process.stderr.write(this.pending);
+        this.pending = '';
+        this.overflowing = true;
+        this.diverted++;
+        log.debug('Diverted overlong stdout line', { count: this.diverted });
+      }
+
+      if (forward.length === 0) {
+        // Nothing reached stdout (yet), but the write itself succeeded
+        if (done) process.nextTick(done);
+        return true;
+      }
+
+      // Call the bound function directly to avoid circular reference
+      return done
+        ? boundOriginalWrite(forward.join(''), done)
+        : boundOriginalWrite(forward.join(''));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any;
+  }
+
+  /**
+   * Sends a message through the original stdout.write, so it never mixes with
+   * output of other code that is still buffered.
+   */
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise(resolve => {
+      if (this.writeStdout(serializeMessage(message))) {
+        resolve();
+      } else {
+        process.stdout.once('drain', resolve);
+      }
+    });
+  }
+
+  /**
+   * Number of stdout lines diverted to stderr because they weren't JSON-RPC messages.
+   */
+  get divertedCount(): number {
+    return this.diverted;
+  }
+
+  // Add cleanup to restore the original when the transport is closed
+  async close(): Promise<void> {
+    // Anything still buffered can never become a complete message
+    if (this.overflowing) {
+      process.stderr.write('\n');
+    } else if (this.pending.length > 0) {
+      this.divert(this.pending);
+      this.pending = '';
+    }
+    if (this.diverted > 0) {
+      log.warn('Non-JSON-RPC stdout lines were diverted to stderr', { total: this.diverted });
+    }
+
+    // Restore the original stdout.write before closing
+    if (this.originalStdoutWrite) {
+      process.stdout.write = this.originalStdoutWrite;
+    }
+
+    // Call the parent class's close method
+    await super.close();
+  }
+
+  /**
+   * Sends a line that must not reach stdout to stderr instead, in full and
+   * whatever the log level.
+   */
+  private divert(line: string): void {
+    if (line.trim() === '') {
+      return;
+    }
+
+    process.stderr.write(`${line}\n`);
+    this.diverted++;
+    log.debug('Diverted non-JSON-RPC stdout output', { count: this.diverted });
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Streamable HTTP transport for the code-reasoning server.
+ *
+ * Serves the MCP Streamable HTTP transport on a single `/mcp` endpoint so that
+ * several clients can share one server process. Every MCP connection gets its
+ * own transport and its own MCP server instance (created through the supplied
+ * factory), which keeps reasoning sessions separate per connection.
+ *
+ * Requests from browser origins other than localhost are refused to block DNS
+ * rebinding, and connections whose client went away without closing them are
+ * closed after an idle timeout.
+ */
+
+import { randomUUID } from 'crypto';
+import http from 'node:http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const MCP_PATH = '/mcp';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTNAMES: ReadonlySet<string> = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+const log = createLogger('transport');
+
+/**
+ * Options for the HTTP server.
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Close a connection that receives no request within this time. 0 disables it.
+  idleTimeoutMs?: number;
+}
+
+/**
+ * A running HTTP server.
+ */
+export interface RunningHttpServer {
+  close(): Promise<void>;
+}
+
+interface Connection {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  // Requests still being answered, including open event streams
+  openRequests: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Writes a JSON-RPC error response.
+ */
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Reads and parses a JSON request body.
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Checks whether a request may reach the server. Editors and command-line
+ * clients send no Origin header; browsers do, and only pages served from this
+ * machine are let through, so a web page can't reach the server through DNS rebinding.
+ */
+function isAllowedOrigin(req: http.IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return true;
+  }
+
+  try {
+    return LOOPBACK_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a request body starts a new MCP connection.
+ */
+function isInitialization(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
+
+/**
+ * Starts the HTTP server.
+ *
+ * @param createServer Factory that creates a fresh MCP server for each connection, given its id
+ * @param options Host and port to listen on, and the idle timeout of connections
+ * @returns A handle used to close the server and every open connection
+ */
+export async function startHttpServer(
+  createServer: (connectionId: string) => Server,
+  options: HttpServerOptions
+): Promise<RunningHttpServer> {
+  const connections = new Map<string, Connection>();
+  const idleTimeoutMs = options.idleTimeoutMs ?? 0;
+
+  // Keeps a connection open while it has requests in flight, and closes it once it stays idle
+  const track = (connection: Connection, res: http.ServerResponse): void => {
+    clearTimeout(connection.idleTimer);
+    connection.openRequests++;
+    res.once('close', () => {
+      connection.openRequests--;
+      if (connection.openRequests > 0 || idleTimeoutMs <= 0 || !connections.has(connection.id)) {
+        return;
+      }
+
+      connection.idleTimer = setTimeout(() => {
+        log.info('Closing idle HTTP connection', {
+          connection: connection.id,
+          idleMs: idleTimeoutMs,
+        });
+        connection.transport
+          .close()
+          .catch(err =>
+            log.error('Error closing HTTP connection', { connection: connection.id, err })
+          );
+      }, idleTimeoutMs);
+      // An idle timer alone must not keep the process alive
+      connection.idleTimer.unref();
+    });
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    if (url.pathname !== MCP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (!isAllowedOrigin(req)) {
+      log.warn('Refused HTTP request from foreign origin', { origin: req.headers.origin });
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: Origin not allowed');
+      return;
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const connection =
+      typeof sessionHeader === 'string' ? connections.get(sessionHeader) : undefined;
+    if (connection) {
+      track(connection, res);
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${(err as Error).message}`);
+        return;
+      }
+
+      if (connection) {
+        await connection.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionHeader !== undefined || !isInitialization(body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      // New connection: give it its own transport and MCP server
+      const connectionId = randomUUID();
+      const server = createServer(connectionId);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => connectionId,
+        onsessioninitialized: id => {
+          connections.set(id, newConnection);
+          log.info('HTTP connection opened', { connection: id, active: connections.size });
+        },
+      });
+      const newConnection: Connection = { id: connectionId, transport, server, openRequests: 0 };
+
+      await server.connect(transport);
+      // connect() takes over transport.onclose, so hook into the server's close handler instead
+      const onServerClose = server.onclose;
+      server.onclose = () => {
+        onServerClose?.();
+        clearTimeout(newConnection.idleTimer);
+        if (connections.delete(connectionId)) {
+          log.info('HTTP connection closed', { connection: connectionId });
+        }
+      };
+      track(newConnection, res);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!connection) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await connection.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch(err => {
+      log.error('HTTP request error', { method: req.method, url: req.url, err });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    close: async () => {
+      for (const { transport } of Array.from(connections.values())) {
+        await transport.close();
+      }
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    },
+  };
+}
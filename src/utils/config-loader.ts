@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Layered configuration loading for code-reasoning
+ *
+ * Configuration is assembled from four layers, each overriding the previous one:
+ * 1. Built-in defaults
+ * 2. A JSON config file (`<configDir>/config.json`, or the file given by `--config`)
+ * 3. `CODE_REASONING_*` environment variables
+ * 4. Command-line flags
+ *
+ * Every layer is validated against the same zod schema, and all problems are
+ * reported together with the layer (file, variable or flag) they came from.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { COACHING_RULE_IDS } from '../sessions/coaching.js';
+import { COMPLETION_GATE_MODES } from '../sessions/completion.js';
+import type { CodeReasoningConfig } from './config-manager.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('config');
+
+const ENV_PREFIX = 'CODE_REASONING_';
+const CONFIG_FILE_NAME = 'config.json';
+
+// Environment variable naming an explicit config file (the counterpart of --config)
+const CONFIG_FILE_ENV = `${ENV_PREFIX}CONFIG`;
+
+/**
+ * Schema for a complete configuration. Config files and the other layers are
+ * validated against its partial form.
+ */
+export const ConfigSchema = z
+  .object({
+    maxThoughtLength: z.number().int().positive(),
+    timeoutMs: z.number().int().nonnegative(),
+    maxThoughts: z.number().int().positive(),
+    debug: z.boolean(),
+    logLevel: z.enum(['error', 'warn', 'info', 'debug']),
+    logFormat: z.enum(['pretty', 'json']),
+    logToFile: z.boolean(),
+    logFileMaxBytes: z.number().int().min(1024),
+    logFileRetentionDays: z.number().int().nonnegative(),
+    transport: z.enum(['stdio', 'http']),
+    httpHost: z.string().min(1),
+    httpPort: z.number().int().min(0).max(65535),
+    httpIdleTimeoutMs: z.number().int().nonnegative(),
+    configDir: z.string().min(1),
+    promptsEnabled: z.boolean(),
+    persistSessions: z.boolean(),
+    sessionRetentionDays: z.number().int().nonnegative(),
+    sequenceValidation: z.enum(['strict', 'lenient']),
+    coaching: z.boolean(),
+    coachingRules: z.array(z.enum(COACHING_RULE_IDS)),
+    coachingBranchAfter: z.number().int().positive(),
+    coachingReviewInterval: z.number().int().nonnegative(),
+    loopThreshold: z.number().gt(0).max(1),
+    loopMaxRepeats: z.number().int().nonnegative(),
+    stallAfter: z.number().int().nonnegative(),
+    completionGate: z.enum(COMPLETION_GATE_MODES),
+  })
+  .strict();
+
+export type ConfigKey = keyof z.infer<typeof ConfigSchema>;
+
+const CONFIG_KEYS = Object.keys(ConfigSchema.shape) as ConfigKey[];
+
+// Flag names that differ from the kebab-cased config key
+const CLI_FLAG_OVERRIDES: Partial<Record<ConfigKey, string>> = {
+  httpHost: 'host',
+  httpPort: 'port',
+  promptsEnabled: 'prompts',
+};
+
+/**
+ * Error thrown when one or more configuration layers are invalid.
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Raw values produced by `parseArgs` with {@link CLI_OPTIONS}.
+ */
+export type CliValues = Record<string, string | boolean | undefined>;
+
+/**
+ * Where the layers are read from.
+ */
+export interface ConfigLoadOptions {
+  /** Raw command-line values */
+  cli?: CliValues;
+  /** Environment variables. Defaults to process.env. */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Converts a config key to its kebab-case command-line flag.
+ */
+export function cliFlagName(key: ConfigKey): string {
+  return CLI_FLAG_OVERRIDES[key] ?? key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
+
+/**
+ * Converts a config key to its environment variable name.
+ */
+export function envVarName(key: ConfigKey): string {
+  return ENV_PREFIX + key.replace(/[A-Z]/g, c => `_${c}`).toUpperCase();
+}
+
+/**
+ * Checks whether a config key holds a boolean.
+ */
+function isBooleanKey(key: ConfigKey): boolean {
+  return ConfigSchema.shape[key] instanceof z.ZodBoolean;
+}
+
+type CliOption = { type: 'boolean' | 'string'; short?: string };
+
+/**
+ * Option definitions for `parseArgs`. Boolean settings get a `--name` and a
+ * `--no-name` flag; every other setting takes a value.
+ */
+export const CLI_OPTIONS: Record<string, CliOption> = {
+  help: { type: 'boolean', short: 'h' },
+  config: { type: 'string' },
+  ...Object.fromEntries(
+    CONFIG_KEYS.flatMap((key): [string, CliOption][] => {
+      const flag = cliFlagName(key);
+      return isBooleanKey(key)
+        ? [
+            [flag, { type: 'boolean' }],
+            [`no-${flag}`, { type: 'boolean' }],
+          ]
+        : [[flag, { type: 'string' }]];
+    })
+  ),
+};
+
+/**
+ * Converts a string from the environment or the command line to the type the
+ * schema expects. Lists are comma-separated. Values that can't be converted are
+ * passed through unchanged so that validation reports them.
+ */
+function coerce(key: ConfigKey, raw: string): unknown {
+  const field = ConfigSchema.shape[key];
+  if (field instanceof z.ZodNumber && raw.trim() !== '' && !Number.isNaN(Number(raw))) {
+    return Number(raw);
+  }
+  if (field instanceof z.ZodBoolean) {
+    if (/^(true|1|yes)$/i.test(raw)) return true;
+    if (/^(false|0|no)$/i.test(raw)) return false;
+  }
+  if (field instanceof z.ZodArray) {
+    return raw
+      .split(',')
+      .map(item => item.trim())
+      .filter(item => item !== '');
+  }
+  return raw;
+}
+
+/**
+ * Validates one layer and records its problems.
+ *
+ * @param layer The values supplied by the layer
+ * @param describe Names the source of a key, e.g. the environment variable it came from
+ * @param problems Collected problems, appended to
+ * @returns The validated values, or an empty object if the layer is invalid
+ */
+function validateLayer(
+  layer: Record<string, unknown>,
+  describe: (key: string) => string,
+  problems: string[]
+): Partial<CodeReasoningConfig> {
+  const result = ConfigSchema.partial().safeParse(layer);
+  if (result.success) {
+    return result.data;
+  }
+
+  for (const issue of result.error.issues) {
+    if (issue.code === 'unrecognized_keys') {
+      problems.push(...issue.keys.map(k => `${describe(k)}: unknown setting "${k}"`));
+    } else {
+      const key = String(issue.path[0]);
+      problems.push(`${describe(key)}: ${issue.message} (got ${JSON.stringify(layer[key])})`);
+    }
+  }
+  return {};
+}
+
+/**
+ * Reads the config file layer.
+ */
+function readFileLayer(
+  filePath: string,
+  required: boolean,
+  problems: string[]
+): Partial<CodeReasoningConfig> {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT' && !required) {
+      return {};
+    }
+    problems.push(`${filePath}: cannot read config file (${(err as Error).message})`);
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    problems.push(`${filePath}: invalid JSON (${(err as Error).message})`);
+    return {};
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    problems.push(`${filePath}: expected a JSON object of settings`);
+    return {};
+  }
+
+  const layer = validateLayer(
+    parsed as Record<string, unknown>,
+    key => `${filePath} "${key}"`,
+    problems
+  );
+  if (layer.configDir !== undefined) {
+    // Relative directories in a config file are relative to the file itself
+    layer.configDir = path.resolve(path.dirname(filePath), layer.configDir);
+  }
+  return layer;
+}
+
+/**
+ * Reads the environment variable layer.
+ */
+function readEnvLayer(
+  env: Record<string, string | undefined>,
+  problems: string[]
+): Partial<CodeReasoningConfig> {
+  const layer: Record<string, unknown> = {};
+  const varNames = new Map<string, string>();
+
+  for (const key of CONFIG_KEYS) {
+    const name = envVarName(key);
+    const raw = env[name];
+    if (raw !== undefined) {
+      layer[key] = coerce(key, raw);
+      varNames.set(key, name);
+    }
+  }
+
+  // A misspelt variable would otherwise be silently ignored
+  const known = new Set([CONFIG_FILE_ENV, ...varNames.values()]);
+  for (const name of Object.keys(env)) {
+    if (name.startsWith(ENV_PREFIX) && !known.has(name)) {
+      log.warn('Ignoring unknown environment variable', { name });
+    }
+  }
+
+  return validateLayer(layer, key => `environment variable ${varNames.get(key)}`, problems);
+}
+
+/**
+ * Reads the command-line layer.
+ */
+function readCliLayer(cli: CliValues, problems: string[]): Partial<CodeReasoningConfig> {
+  const layer: Record<string, unknown> = {};
+
+  for (const key of CONFIG_KEYS) {
+    const flag = cliFlagName(key);
+    const value = cli[flag];
+
+    if (isBooleanKey(key)) {
+      if (value && cli[`no-${flag}`]) {
+        problems.push(`--${flag} and --no-${flag} cannot be used together`);
+      } else if (value) {
+        layer[key] = true;
+      } else if (cli[`no-${flag}`]) {
+        layer[key] = false;
+      }
+    } else if (typeof value === 'string') {
+      layer[key] = coerce(key, value);
+    }
+  }
+
+  return validateLayer(layer, key => `--${cliFlagName(key as ConfigKey)}`, problems);
+}
+
+/**
+ * Loads the configuration from all layers.
+ *
+ * @param defaults The built-in defaults
+ * @param options Where to read the command-line and environment layers from
+ * @returns The merged configuration
+ * @throws ConfigValidationError if any layer is invalid
+ */
+export function loadLayeredConfig(
+  defaults: CodeReasoningConfig,
+  options: ConfigLoadOptions = {}
+): CodeReasoningConfig {
+  const cli = options.cli ?? {};
+  const env = options.env ?? process.env;
+  const problems: string[] = [];
+
+  // The environment and CLI layers are read first: they can move the config directory
+  const envLayer = readEnvLayer(env, problems);
+  const cliLayer = readCliLayer(cli, problems);
+
+  const explicitFile =
+    typeof cli.config === 'string' ? cli.config : (env[CONFIG_FILE_ENV] ?? undefined);
+  const configDir = cliLayer.configDir ?? envLayer.configDir ?? defaults.configDir;
+  const filePath = path.resolve(explicitFile ?? path.join(configDir, CONFIG_FILE_NAME));
+  const fileLayer = readFileLayer(filePath, explicitFile !== undefined, problems);
+
+  if (problems.length > 0) {
+    throw new ConfigValidationError(problems);
+  }
+
+  const config = { ...defaults, ...fileLayer, ...envLayer, ...cliLayer };
+  config.configDir = path.resolve(config.configDir);
+  return config;
+}
+
+/**
+ * Builds the `--help` text from the option definitions.
+ */
+export function formatCliHelp(): string {
+  const rows: [string, string][] = [
+    ['-h, --help', 'Show this help and exit'],
+    ['--config <file>', `Config file to load (default: <config-dir>/${CONFIG_FILE_NAME})`],
+  ];
+  for (const key of CONFIG_KEYS) {
+    const flag = cliFlagName(key);
+    rows.push(
+      isBooleanKey(key)
+        ? [`--[no-]${flag}`, `Sets "${key}" (env: ${envVarName(key)})`]
+        : [`--${flag} <value>`, `Sets "${key}" (env: ${envVarName(key)})`]
+    );
+  }
+
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  return [
+    'Usage: code-reasoning [options]',
+    '',
+    'Options:',
+    ...rows.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`),
+    '',
+    `Settings are read from defaults, the config file, ${ENV_PREFIX}* environment variables`,
+    'and command-line flags, in that order.',
+  ].join('\n');
+}
@@ -2,22 +2,74 @@
  * @fileoverview Configuration manager for code-reasoning server
  *
  * This module provides a singleton configuration manager that handles
- * configuration settings for the code-reasoning server in memory.
+ * configuration settings for the code-reasoning server. Settings are loaded
+ * once from the layered sources in config-loader.ts and kept in memory.
  */
 
+import { COACHING_RULE_IDS, type CoachingRuleId } from '../sessions/coaching.js';
+import type { CompletionGateMode } from '../sessions/completion.js';
+import type { SequenceValidationMode } from '../sessions/validator.js';
+import type { LogFormat, LogLevelName } from './logger.js';
+import { CONFIG_DIR, MAX_THOUGHT_LENGTH, MAX_THOUGHTS, SESSION_IDLE_TIMEOUT_MS } from './config.js';
+import { ConfigLoadOptions, ConfigValidationError, loadLayeredConfig } from './config-loader.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('config');
+
 /**
  * Structure of the server configuration
  */
 export interface CodeReasoningConfig {
   // Server settings
   maxThoughtLength: number;
+  // Session idle timeout in milliseconds, 0 keeps sessions open
   timeoutMs: number;
   maxThoughts: number;
   debug: boolean;
 
+  // Logging settings (debug: true implies logLevel 'debug')
+  logLevel: LogLevelName;
+  logFormat: LogFormat;
+
+  // Rotating log files under <configDir>/logs
+  logToFile: boolean;
+  logFileMaxBytes: number;
+  logFileRetentionDays: number;
+
+  // Transport settings
+  transport: 'stdio' | 'http';
+  httpHost: string;
+  httpPort: number;
+  httpIdleTimeoutMs: number;
+
+  // Directory holding config.json, prompts and sessions
+  configDir: string;
+
   // Prompt-related configuration
   promptsEnabled: boolean;
 
+  // Session-related configuration
+  persistSessions: boolean;
+  // Days to keep session files that were not updated, 0 keeps them forever
+  sessionRetentionDays: number;
+  sequenceValidation: SequenceValidationMode;
+
+  // Coaching hints returned as guidance with accepted thoughts
+  coaching: boolean;
+  coachingRules: CoachingRuleId[];
+  coachingBranchAfter: number;
+  coachingReviewInterval: number;
+
+  // Repeated thought detection: similarity threshold (0-1) and repeats allowed, 0 for no limit
+  loopThreshold: number;
+  loopMaxRepeats: number;
+
+  // Thoughts without a branch, revision or conclusion before a session counts as stalled, 0 to disable
+  stallAfter: number;
+
+  // What happens to a conclusion with open branches or thoughts a revision left behind
+  completionGate: CompletionGateMode;
+
   // Any additional custom settings
   [key: string]: unknown;
 }
@@ -35,16 +87,24 @@ class ConfigManager {
   }
 
   /**
-   * Initialize configuration
+   * Initialize configuration from defaults, the config file, the environment
+   * and command-line flags
+   *
+   * @param options Where to read the command-line and environment layers from
+   * @throws ConfigValidationError if any layer is invalid
    */
-  async init(): Promise<void> {
+  async init(options: ConfigLoadOptions = {}): Promise<void> {
     if (this.initialized) return;
 
     try {
-      // In-memory only configuration, no filesystem operations needed
+      this.config = loadLayeredConfig(this.getDefaultConfig(), options);
       this.initialized = true;
     } catch (error) {
-      console.error('Failed to initialize config:', error);
+      // Invalid settings must be fixed by the user, not silently replaced
+      if (error instanceof ConfigValidationError) {
+        throw error;
+      }
+      log.error('Failed to initialize config', { err: error });
       // Fall back to default config in memory
       this.config = this.getDefaultConfig();
       this.initialized = true;
@@ -56,11 +116,32 @@ class ConfigManager {
    */
   private getDefaultConfig(): CodeReasoningConfig {
     return {
-      maxThoughtLength: 20000,
-      timeoutMs: 60000,
-      maxThoughts: 20,
+      maxThoughtLength: MAX_THOUGHT_LENGTH,
+      timeoutMs: SESSION_IDLE_TIMEOUT_MS,
+      maxThoughts: MAX_THOUGHTS,
       debug: false,
+      logLevel: 'info',
+      logFormat: 'pretty',
+      logToFile: false,
+      logFileMaxBytes: 10 * 1024 * 1024,
+      logFileRetentionDays: 14,
+      transport: 'stdio',
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
+      httpIdleTimeoutMs: 1800000,
+      configDir: CONFIG_DIR,
       promptsEnabled: true,
+      persistSessions: true,
+      sessionRetentionDays: 30,
+      sequenceValidation: 'lenient',
+      coaching: true,
+      coachingRules: [...COACHING_RULE_IDS],
+      coachingBranchAfter: 5,
+      coachingReviewInterval: 3,
+      loopThreshold: 0.8,
+      loopMaxRepeats: 0,
+      stallAfter: 8,
+      completionGate: 'off',
     };
   }
 
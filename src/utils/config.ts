@@ -5,9 +5,9 @@
  * 1. Filesystem paths for components that need filesystem access (prompts)
  * 2. Default application constants
  *
- * Note: The main configuration system is in-memory only and doesn't use
- * filesystem persistence for configuration values. The filesystem paths
- * defined here are only used for prompt-related functionality.
+ * Note: CONFIG_DIR is only the default location. The configured directory
+ * (`configDir`, see config-loader.ts) holds config.json, prompt data and
+ * persisted reasoning sessions.
  */
 
 import path from 'path';
@@ -19,6 +19,10 @@ export const CONFIG_DIR = path.join(USER_HOME, '.code-reasoning');
 export const PROMPT_VALUES_FILE = path.join(CONFIG_DIR, 'prompt_values.json');
 export const CUSTOM_PROMPTS_DIR = path.join(CONFIG_DIR, 'prompts');
 
+// Filesystem path for persisted reasoning sessions
+export const SESSIONS_DIR = path.join(CONFIG_DIR, 'sessions');
+
 // Application defaults (used by the in-memory configuration)
 export const MAX_THOUGHT_LENGTH = 20000;
 export const MAX_THOUGHTS = 20;
+export const SESSION_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
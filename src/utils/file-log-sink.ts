@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Rotating log files for the reasoning trace.
+ *
+ * Writes every log record, including the formatted text of each thought, to
+ * `code-reasoning.log` in the logs directory. When the file grows past the
+ * configured size it is renamed with a timestamp and a new file is started;
+ * rotated files older than the retention period are deleted. The trace
+ * outlives the client process, so a user can share a log file instead of
+ * reproducing a problem with --debug.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import process from 'node:process';
+import { formatLogRecord, type LogFormat, type LogRecord, type LogSink } from './logger.js';
+
+const LOG_FILE_BASENAME = 'code-reasoning';
+const ROTATED_FILE_PATTERN = /^code-reasoning-[0-9TZ-]+\.log$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for the rotating file sink.
+ */
+export interface RotatingFileSinkOptions {
+  /** Directory that holds the log files */
+  dir: string;
+  /** Size in bytes at which the current file is rotated */
+  maxBytes: number;
+  /** Days to keep rotated files. 0 keeps them forever. */
+  retentionDays: number;
+  /** Format of each record */
+  format: LogFormat;
+}
+
+/**
+ * Log sink that appends records to a size-rotated file.
+ */
+export class RotatingFileSink {
+  private readonly filePath: string;
+  private fd: number | undefined;
+  private size = 0;
+  private failed = false;
+
+  /**
+   * Creates a new RotatingFileSink and opens the current log file.
+   *
+   * @param options Directory, rotation size, retention and format
+   */
+  constructor(private readonly options: RotatingFileSinkOptions) {
+    this.filePath = path.join(options.dir, `${LOG_FILE_BASENAME}.log`);
+
+    try {
+      fs.mkdirSync(options.dir, { recursive: true });
+      this.open();
+      this.prune();
+    } catch (err) {
+      this.fail('Failed to open log file', err);
+    }
+  }
+
+  /**
+   * Path of the file currently written to.
+   */
+  get currentFile(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Sink to register with addLogSink().
+   */
+  readonly sink: LogSink = record => this.write(record);
+
+  /**
+   * Closes the current log file.
+   */
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private write(record: LogRecord): void {
+    if (this.fd === undefined) {
+      return;
+    }
+
+    const line = `${formatLogRecord(record, this.options.format, 'file')}\n`;
+    try {
+      if (this.size > 0 && this.size + Buffer.byteLength(line) > this.options.maxBytes) {
+        this.rotate();
+      }
+      this.size += fs.writeSync(this.fd, line);
+    } catch (err) {
+      this.fail('Failed to write log file', err);
+    }
+  }
+
+  /**
+   * Opens the current file for appending, continuing where a previous run stopped.
+   */
+  private open(): void {
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  /**
+   * Renames the current file with a timestamp and starts a new one.
+   */
+  private rotate(): void {
+    this.close();
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    fs.renameSync(this.filePath, path.join(this.options.dir, `${LOG_FILE_BASENAME}-${stamp}.log`));
+    this.open();
+    this.prune();
+  }
+
+  /**
+   * Deletes rotated files older than the retention period.
+   */
+  private prune(): void {
+    if (this.options.retentionDays <= 0) {
+      return;
+    }
+
+    const cutoff = Date.now() - this.options.retentionDays * DAY_MS;
+    for (const file of fs.readdirSync(this.options.dir)) {
+      if (!ROTATED_FILE_PATTERN.test(file)) continue;
+
+      const filePath = path.join(this.options.dir, file);
+      try {
+        if (fs.statSync(filePath).mtimeMs < cutoff) {
+          fs.unlinkSync(filePath);
+        }
+      } catch {
+        // Already removed, e.g. by another server process sharing the directory
+      }
+    }
+  }
+
+  /**
+   * Stops writing after an error. Reported on stderr directly, because logging
+   * through the logger would feed this sink again.
+   */
+  private fail(message: string, err: unknown): void {
+    if (this.failed) return;
+    this.failed = true;
+    try {
+      this.close();
+    } catch {
+      // The descriptor is unusable anyway
+    }
+    this.fd = undefined;
+    process.stderr.write(`${message} ${this.filePath}: ${(err as Error).message}\n`);
+  }
+}
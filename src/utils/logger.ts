@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Structured logger for code-reasoning
+ *
+ * Every log record has a level, a component tag and an optional set of
+ * fields. Records are written to stderr, because stdout is reserved for
+ * JSON-RPC messages, either as one JSON object per line for log aggregation
+ * or as colored, human-readable lines.
+ *
+ * Loggers are created once per module with createLogger(); the level and
+ * format are applied globally through configureLogging() once the server
+ * configuration has been loaded.
+ *
+ * Besides stderr, records are handed to sinks: global sinks registered with
+ * addLogSink() see every record, and a logger derived with withSink() also
+ * feeds its own sink. Sinks receive records of every level and apply their
+ * own filtering, e.g. the level an MCP client asked for.
+ */
+
+import process from 'node:process';
+import { Chalk, chalkStderr, type ChalkInstance } from 'chalk';
+
+/**
+ * Log levels, from most to least severe. A record is written when its level
+ * is at or below the configured level.
+ */
+export enum LogLevel {
+  ERROR = 0,
+  WARN = 1,
+  INFO = 2,
+  DEBUG = 3,
+}
+
+export type LogLevelName = 'error' | 'warn' | 'info' | 'debug';
+export type LogFormat = 'pretty' | 'json';
+
+/**
+ * Components that tag their log records.
+ */
+export type LogComponent =
+  | 'server'
+  | 'prompts'
+  | 'valueManager'
+  | 'transport'
+  | 'sessions'
+  | 'config';
+
+/**
+ * Additional structured data attached to a log record.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A single log record, as handed to sinks.
+ */
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  component: LogComponent;
+  message: string;
+  fields?: LogFields;
+}
+
+/**
+ * Receives log records in addition to stderr.
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Global logging settings.
+ */
+export interface LoggingOptions {
+  level: LogLevelName;
+  format: LogFormat;
+}
+
+const LEVEL_BY_NAME: Record<LogLevelName, LogLevel> = {
+  error: LogLevel.ERROR,
+  warn: LogLevel.WARN,
+  info: LogLevel.INFO,
+  debug: LogLevel.DEBUG,
+};
+
+const PRETTY_LEVELS: Record<LogLevel, [label: string, color: 'red' | 'yellow' | 'green' | 'gray']> =
+  {
+    [LogLevel.ERROR]: ['ERROR', 'red'],
+    [LogLevel.WARN]: ['WARN ', 'yellow'],
+    [LogLevel.INFO]: ['INFO ', 'green'],
+    [LogLevel.DEBUG]: ['DEBUG', 'gray'],
+  };
+
+// Files get plain text, whatever the terminal supports
+const plain = new Chalk({ level: 0 });
+
+/**
+ * Where a formatted record is written.
+ */
+export type LogTarget = 'stderr' | 'file';
+
+const settings: { level: LogLevel; format: LogFormat } = {
+  level: LogLevel.INFO,
+  format: 'pretty',
+};
+
+const globalSinks = new Set<LogSink>();
+
+/**
+ * Applies the logging settings to every logger.
+ *
+ * @param options The level and output format to use
+ */
+export function configureLogging(options: LoggingOptions): void {
+  settings.level = LEVEL_BY_NAME[options.level];
+  settings.format = options.format;
+}
+
+/**
+ * Registers a sink that receives every log record.
+ *
+ * @param sink The sink to add
+ * @returns A function that removes the sink again
+ */
+export function addLogSink(sink: LogSink): () => void {
+  globalSinks.add(sink);
+  return () => globalSinks.delete(sink);
+}
+
+/**
+ * Converts fields to JSON-safe values. Errors, which JSON.stringify turns
+ * into `{}`, become plain objects.
+ *
+ * @param fields The fields of a record
+ * @returns The serializable fields
+ */
+export function serializeFields(fields: LogFields = {}): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [
+      key,
+      value instanceof Error
+        ? { name: value.name, message: value.message, stack: value.stack }
+        : value,
+    ])
+  );
+}
+
+/**
+ * Formats a record as a single JSON line.
+ */
+function formatJson(record: LogRecord): string {
+  const line: Record<string, unknown> = {
+    time: record.time,
+    level: LogLevel[record.level].toLowerCase(),
+    component: record.component,
+    msg: record.message,
+  };
+  for (const [key, value] of Object.entries(serializeFields(record.fields))) {
+    // Never let a field overwrite the record's own keys
+    line[key in line ? `field_${key}` : key] = value;
+  }
+  return JSON.stringify(line);
+}
+
+/**
+ * Formats a record for humans: time, level, component, message and `key=value` fields.
+ * The rest of a multi-line message and error stacks are printed on the following lines.
+ */
+function formatPretty(record: LogRecord, chalk: ChalkInstance, time: string): string {
+  const [label, color] = PRETTY_LEVELS[record.level];
+  const [firstLine, ...moreLines] = record.message.split('\n');
+  const parts = [
+    chalk.dim(time),
+    chalk[color](label),
+    chalk.cyan(`[${record.component}]`),
+    firstLine,
+  ];
+  const stacks: string[] = [];
+
+  for (const [key, value] of Object.entries(record.fields ?? {})) {
+    if (value instanceof Error) {
+      parts.push(`${chalk.dim(`${key}=`)}${value.message}`);
+      if (value.stack) stacks.push(chalk.dim(value.stack));
+    } else {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      parts.push(`${chalk.dim(`${key}=`)}${text}`);
+    }
+  }
+
+  return [parts.join(' '), ...moreLines, ...stacks].join('\n');
+}
+
+/**
+ * Formats a record in one of the log formats.
+ *
+ * @param record The record to format
+ * @param format The log format
+ * @param target Pretty output is colored on stderr, while files get plain text and the full date
+ * @returns The formatted record, without a trailing newline
+ */
+export function formatLogRecord(record: LogRecord, format: LogFormat, target: LogTarget): string {
+  if (format === 'json') {
+    return formatJson(record);
+  }
+  return target === 'file'
+    ? formatPretty(record, plain, record.time)
+    : formatPretty(record, chalkStderr, record.time.slice(11, 23));
+}
+
+/**
+ * Logger bound to a single component.
+ */
+export class Logger {
+  /**
+   * Creates a new Logger.
+   *
+   * @param component The component tag written with every record
+   * @param sinks Sinks fed by this logger only
+   */
+  constructor(
+    readonly component: LogComponent,
+    private readonly sinks: readonly LogSink[] = []
+  ) {}
+
+  /**
+   * Derives a logger for the same component that also feeds a sink of its own,
+   * e.g. to forward records to a single MCP client.
+   *
+   * @param sink The additional sink
+   * @returns The derived logger
+   */
+  withSink(sink: LogSink): Logger {
+    return new Logger(this.component, [...this.sinks, sink]);
+  }
+
+  /**
+   * Checks whether records of a level are currently written.
+   */
+  isEnabled(level: LogLevel): boolean {
+    return level <= settings.level;
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write(LogLevel.ERROR, message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write(LogLevel.WARN, message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write(LogLevel.INFO, message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write(LogLevel.DEBUG, message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    const toStderr = this.isEnabled(level);
+    const sinks = [...globalSinks, ...this.sinks];
+    if (!toStderr && sinks.length === 0) {
+      return;
+    }
+
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      message,
+      ...(fields && { fields }),
+    };
+
+    if (toStderr) {
+      process.stderr.write(`${formatLogRecord(record, settings.format, 'stderr')}\n`);
+    }
+    for (const sink of sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must never break the code that logged
+      }
+    }
+  }
+}
+
+/**
+ * Creates a logger for a component.
+ *
+ * @param component The component tag written with every record
+ * @returns The logger
+ */
+export function createLogger(component: LogComponent): Logger {
+  return new Logger(component);
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Forwards log records to an MCP client.
+ *
+ * Implements the server side of the MCP logging capability: the client picks
+ * a minimum level with `logging/setLevel`, and every log record at or above
+ * that level is sent as a `notifications/message`. Records logged before the
+ * client finished initializing, such as problems loading custom prompts at
+ * startup, are replayed once it is ready.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { LogLevel, serializeFields, type LogRecord, type LogSink } from './logger.js';
+
+// MCP (syslog) levels, least severe first
+const MCP_SEVERITY: readonly LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+  [LogLevel.ERROR]: 'error',
+  [LogLevel.WARN]: 'warning',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.DEBUG]: 'debug',
+};
+
+// Level used until the client calls logging/setLevel
+const DEFAULT_MCP_LEVEL: LoggingLevel = 'info';
+
+// Most records kept while waiting for the client to initialize
+const MAX_PENDING_RECORDS = 100;
+
+/**
+ * Sends log records to the client of one MCP server.
+ */
+export class McpLogForwarder {
+  private level: LoggingLevel = DEFAULT_MCP_LEVEL;
+  private ready = false;
+  private readonly pending: LogRecord[] = [];
+
+  /**
+   * Creates a new McpLogForwarder.
+   *
+   * @param server The MCP server whose client receives the records
+   */
+  constructor(private readonly server: Server) {}
+
+  /**
+   * Sink to attach to loggers whose records this client should see.
+   */
+  readonly sink: LogSink = record => {
+    if (!this.ready) {
+      if (this.pending.length < MAX_PENDING_RECORDS) this.pending.push(record);
+      return;
+    }
+    this.send(record);
+  };
+
+  /**
+   * Sets the minimum level requested by the client through logging/setLevel.
+   *
+   * @param level The least severe level to send
+   */
+  setLevel(level: LoggingLevel): void {
+    this.level = level;
+  }
+
+  /**
+   * Starts sending once the client has initialized, replaying what was logged before.
+   */
+  markReady(): void {
+    this.ready = true;
+    for (const record of this.pending.splice(0)) {
+      this.send(record);
+    }
+  }
+
+  private send(record: LogRecord): void {
+    const level = MCP_LEVELS[record.level];
+    if (MCP_SEVERITY.indexOf(level) < MCP_SEVERITY.indexOf(this.level)) {
+      return;
+    }
+
+    this.server
+      .sendLoggingMessage({
+        level,
+        logger: record.component,
+        data: { message: record.message, time: record.time, ...serializeFields(record.fields) },
+      })
+      .catch(() => {
+        // The client may already be gone; the record was written to stderr anyway
+      });
+  }
+}
@@ -25,15 +25,69 @@ interface Thought {
   branch_id?: string;
   is_revision?: boolean;
   revises_thought?: number;
+  merge_branch_id?: string;
+  abandon_branch_id?: string;
+  confidence?: number;
+  assumptions?: string[];
+  open_questions?: string[];
+  answered_questions?: string[];
+  kind?: string;
+  tags?: string[];
+  confirms_hypothesis?: number;
+  refutes_hypothesis?: number;
+  session_id?: string;
+}
+
+// Any other request sent between thoughts, e.g. a call to another tool or a resource read
+interface ScenarioRequest {
+  method: string;
+  // Built from the results so far when the request depends on them, e.g. on a session id
+  params?: JsonRpcParams | ((results: ThoughtResult[]) => JsonRpcParams);
+  // Waits this long before sending the request
+  delayMs?: number;
+}
+
+type ScenarioStep = Thought | ScenarioRequest;
+
+// Configuration of a server started for a single scenario
+interface ScenarioServer {
+  // Passed to node before the server entry point, e.g. to preload a module
+  nodeArgs?: string[];
+  args?: string[];
+  env?: Record<string, string>;
+  // Written to config.json in the server's config directory
+  config?: Record<string, unknown>;
+  // Written to the server's config directory before it starts, by relative path
+  files?: Record<string, string>;
+}
+
+// Everything the server process wrote so far
+interface ServerOutput {
+  stdout: string;
+  stderr: string;
 }
 
 // Test scenario definition
 interface TestScenario {
   name: string;
   description: string;
-  thoughts: Thought[];
+  thoughts: ScenarioStep[];
   expectedSuccessCount?: number;
   expectedErrorCount?: number;
+  // Checks the tool results, returning a message for every expectation they miss
+  verify?: (results: ThoughtResult[], output: ServerOutput, serverConfigDir: string) => string[];
+  // Runs the scenario against its own server with these settings instead of the shared one
+  server?: ScenarioServer;
+  // Talks to the server itself instead of sending the thoughts over stdio, e.g. over HTTP,
+  // returning a message for every expectation it misses
+  check?: (serverConfigDir: string) => Promise<string[]>;
+}
+
+// A thought as listed in a summary's active_path
+interface SummaryThought {
+  thought_number: number;
+  branch_id?: string;
+  superseded?: boolean;
 }
 
 // Types for JSON-RPC params
@@ -89,11 +143,12 @@ interface Tool {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
 }
 
 // Test result structures
 interface ThoughtResult {
-  thought: Thought;
+  thought: ScenarioStep;
   response?: JsonRpcResponse;
   success: boolean;
   error?: string;
@@ -124,6 +179,7 @@ interface TestOptions {
 }
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { ChildProcess, spawn } from 'child_process';
@@ -171,6 +227,40 @@ const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
 const logFile = path.join(logsDir, `custom-test-${timestamp}.log`);
 const resultFile = path.join(testResultsDir, `custom-result-${timestamp}.json`);
 
+// Port of the HTTP scenario's server, picked at random to avoid other servers on this machine
+const httpPort = 20000 + Math.floor(Math.random() * 20000);
+const httpUrl = `http://127.0.0.1:${httpPort}/mcp`;
+
+// Sessions and prompt values of the test server stay out of the user's ~/.code-reasoning
+const configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-reasoning-e2e-'));
+
+const serverOutputs = new Map<ChildProcess, ServerOutput>();
+
+// Written to stdout without a newline, longer than the server buffers
+const OVERLONG_LINE = 'y'.repeat(100 * 1024);
+
+// Preloaded into the server to write to stdout like a careless dependency: a hex-encoded
+// line and a partial line during the first tool call, then its end and a JSON-RPC notification
+// split over two writes, and finally a line too long to buffer that never ends
+const STRAY_STDOUT_MODULE = `
+let calls = 0;
+process.stdin.on('data', chunk => {
+  for (const line of chunk.toString().split('\\n')) {
+    if (!line.includes('"tools/call"')) continue;
+    calls++;
+    if (calls === 1) {
+      process.stdout.write(Buffer.from('hex encoded\\n').toString('hex'), 'hex');
+      process.stdout.write('progress: 50%');
+    }
+    if (calls === 2) {
+      process.stdout.write('\\n{"jsonrpc":"2.0","method":"notifications/message",');
+      process.stdout.write('"params":{"level":"info","data":"split write"}}\\n');
+    }
+    if (calls === 3) process.stdout.write('y'.repeat(${OVERLONG_LINE.length}));
+  }
+});
+`;
+
 // Create writable stream
 const logStream = fs.createWriteStream(logFile, { flags: 'a' });
 
@@ -196,6 +286,7 @@ const options: TestOptions = {
 log(`Code-Reasoning E2E Test Runner starting`);
 log(`Log file: ${logFile}`);
 log(`Result file: ${resultFile}`);
+log(`Server config directory: ${configDir}`);
 log(`Running scenario: ${options.scenario}`);
 log(`Verbose mode: ${options.verbose}`);
 
@@ -212,127 +303,1828 @@ const testScenarios: Record<string, TestScenario> = {
         next_thought_needed: true,
       },
       {
-        thought: 'Second step: Break down the problem into smaller parts.',
+        thought: 'Second step: Break down the problem into smaller parts.',
+        thought_number: 2,
+        total_thoughts: 4,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Third step: Analyze each part and identify solutions.',
+        thought_number: 3,
+        total_thoughts: 4,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Fourth step: Combine the solutions into a comprehensive approach.',
+        thought_number: 4,
+        total_thoughts: 4,
+        next_thought_needed: false,
+      },
+    ],
+    expectedSuccessCount: 4,
+    expectedErrorCount: 0,
+  },
+
+  branch: {
+    name: 'Thought flow with branching',
+    description: 'Tests the ability to branch into alternative thought paths',
+    thoughts: [
+      {
+        thought: 'Main approach: Define the problem scope.',
+        thought_number: 1,
+        total_thoughts: 5,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Identify potential solution methodologies.',
+        thought_number: 2,
+        total_thoughts: 5,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Alternative approach: Consider the problem from first principles.',
+        thought_number: 3,
+        total_thoughts: 5,
+        branch_from_thought: 1,
+        branch_id: 'B1',
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Continue main approach: Evaluate methodologies against requirements.',
+        thought_number: 3,
+        total_thoughts: 5,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'B1: Break down the problem to its fundamental components.',
+        thought_number: 4,
+        total_thoughts: 5,
+        branch_from_thought: 3,
+        branch_id: 'B1',
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Final main approach: Select the most appropriate methodology.',
+        thought_number: 4,
+        total_thoughts: 5,
+        next_thought_needed: false,
+      },
+      {
+        thought: 'B1: Construct solution directly from fundamental components.',
+        thought_number: 5,
+        total_thoughts: 5,
+        branch_from_thought: 4,
+        branch_id: 'B1',
+        next_thought_needed: false,
+      },
+      { method: 'tools/call', params: { name: 'code-reasoning-summary', arguments: {} } },
+    ],
+    expectedSuccessCount: 8,
+    expectedErrorCount: 0,
+    verify: results => {
+      const summary = toolPayload(results[7]);
+      const activePath = (summary?.active_path as SummaryThought[] | undefined)?.map(t =>
+        [t.thought_number, t.branch_id ?? 'main'].join(':')
+      );
+      // B1 follows its parent link back to thought 1, skipping the rest of the main line
+      return JSON.stringify(activePath) === JSON.stringify(['1:main', '3:B1', '4:B1', '5:B1'])
+        ? []
+        : [`Summary: expected the active path through B1, got ${JSON.stringify(activePath)}`];
+    },
+  },
+
+  revision: {
+    name: 'Thought flow with revision',
+    description: 'Tests the ability to revise previous thoughts',
+    thoughts: [
+      {
+        thought: 'Initial analysis of the problem domain.',
+        thought_number: 1,
+        total_thoughts: 4,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Proposed solution based on initial understanding.',
+        thought_number: 2,
+        total_thoughts: 4,
+        next_thought_needed: true,
+      },
+      {
+        thought:
+          'Wait, I made an error in my initial analysis. The problem actually involves asynchronous operations.',
+        thought_number: 3,
+        total_thoughts: 5,
+        is_revision: true,
+        revises_thought: 1,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Given the asynchronous nature, we need to revise our solution approach.',
+        thought_number: 4,
+        total_thoughts: 5,
+        is_revision: true,
+        revises_thought: 2,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Correction: the operations are asynchronous and may also complete out of order.',
+        thought_number: 5,
+        total_thoughts: 6,
+        is_revision: true,
+        revises_thought: 1,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Final solution incorporating asynchronous handling and error management.',
+        thought_number: 6,
+        total_thoughts: 6,
+        next_thought_needed: false,
+      },
+      { method: 'tools/call', params: { name: 'code-reasoning-summary', arguments: {} } },
+    ],
+    expectedSuccessCount: 7,
+    expectedErrorCount: 0,
+    verify: results => {
+      const final = toolPayload(results[5]);
+      const summary = toolPayload(results[6]);
+      const activePath = (summary?.active_path as SummaryThought[] | undefined)?.map(
+        t => t.thought_number
+      );
+      // Thought 1 was revised twice and is listed once, with the revision that replaces it now
+      const revisedThoughts = [
+        { thought_number: 1, revised_by: 5 },
+        { thought_number: 2, revised_by: 4 },
+      ];
+      return [
+        ...expectFields('Thought #6', final, { revised_thoughts: revisedThoughts }),
+        ...expectFields('Summary', summary, { revised_thoughts: revisedThoughts }),
+        ...(JSON.stringify(activePath) === '[5,4,6]'
+          ? []
+          : [`Summary: expected the active path [5,4,6], got ${JSON.stringify(activePath)}`]),
+      ];
+    },
+  },
+
+  session: {
+    name: 'Session isolation',
+    description: 'Tests that a reset thought_number starts a fresh session with its own history',
+    thoughts: [
+      {
+        thought: 'Problem A: Outline the caching strategy.',
+        thought_number: 1,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Problem A: Alternative using write-through caching.',
+        thought_number: 2,
+        total_thoughts: 3,
+        branch_from_thought: 1,
+        branch_id: 'write-through',
+        next_thought_needed: false,
+      },
+      {
+        thought: 'Problem B: Unrelated task, starts a new session.',
+        thought_number: 1,
+        total_thoughts: 2,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Problem B: Continue without inheriting branches from problem A.',
+        thought_number: 2,
+        total_thoughts: 2,
+        next_thought_needed: false,
+      },
+      {
+        thought: 'Explicit session: Start a named session.',
+        thought_number: 1,
+        total_thoughts: 1,
+        next_thought_needed: false,
+        session_id: `e2e-session-${timestamp}`,
+      },
+    ],
+    expectedSuccessCount: 5,
+    expectedErrorCount: 0,
+    verify: results => {
+      const [a1, a2, b1, b2, named] = results.map(toolPayload);
+      const failures: string[] = [];
+
+      if (a1?.session_id === undefined || a2?.session_id !== a1.session_id) {
+        failures.push('Problem A should stay in one session');
+      }
+      if (JSON.stringify(a2?.branches) !== JSON.stringify(['write-through'])) {
+        failures.push(`Problem A should report its branch, got ${JSON.stringify(a2?.branches)}`);
+      }
+      if (b1?.session_id === undefined || b1.session_id === a1?.session_id) {
+        failures.push('Problem B should start a new session');
+      }
+      if (b2?.session_id !== b1?.session_id) {
+        failures.push('Problem B should stay in its own session');
+      }
+      for (const [label, payload] of [
+        ['first', b1],
+        ['second', b2],
+      ] as const) {
+        if (JSON.stringify(payload?.branches) !== '[]') {
+          failures.push(
+            `Problem B's ${label} thought should not inherit branches, got ${JSON.stringify(payload?.branches)}`
+          );
+        }
+      }
+      if (b2?.thought_history_length !== 2) {
+        failures.push(
+          `Problem B should only count its own thoughts, got ${b2?.thought_history_length}`
+        );
+      }
+      if (named?.session_id !== `e2e-session-${timestamp}`) {
+        failures.push(`The named session should keep its id, got ${named?.session_id}`);
+      }
+      return failures;
+    },
+  },
+
+  export: {
+    name: 'Session export',
+    description:
+      'Tests the Markdown, Mermaid and DOT exports of a session with a branch and a revision',
+    thoughts: [
+      {
+        thought: 'Pick a queue for order events.',
+        thought_number: 1,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        session_id: `e2e-export-${timestamp}`,
+      },
+      {
+        thought: 'Use the existing Postgres table as a queue.',
+        thought_number: 2,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        session_id: `e2e-export-${timestamp}`,
+      },
+      {
+        thought: 'Alternative: use RabbitMQ.',
+        thought_number: 2,
+        total_thoughts: 4,
+        branch_from_thought: 1,
+        branch_id: 'rabbit',
+        next_thought_needed: true,
+        session_id: `e2e-export-${timestamp}`,
+      },
+      {
+        thought: 'Postgres with SKIP LOCKED handles the load.',
+        thought_number: 3,
+        total_thoughts: 4,
+        is_revision: true,
+        revises_thought: 2,
+        next_thought_needed: true,
+        session_id: `e2e-export-${timestamp}`,
+      },
+      {
+        thought: 'Keep Postgres; RabbitMQ adds an operations burden.',
+        thought_number: 4,
+        total_thoughts: 4,
+        abandon_branch_id: 'rabbit',
+        next_thought_needed: false,
+        session_id: `e2e-export-${timestamp}`,
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-export',
+          arguments: { session_id: `e2e-export-${timestamp}`, format: 'markdown' },
+        },
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-export',
+          arguments: { session_id: `e2e-export-${timestamp}`, format: 'mermaid' },
+        },
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-export',
+          arguments: { session_id: `e2e-export-${timestamp}`, format: 'dot' },
+        },
+      },
+    ],
+    expectedSuccessCount: 8,
+    expectedErrorCount: 0,
+    verify: results => {
+      return [
+        ...expectLines('markdown export', results[5], [
+          `# Reasoning Session e2e-export-${timestamp}`,
+          '- Branches: `rabbit`',
+          '- **1.** Pick a queue for order events.',
+          '  - 🌿 **Branch `rabbit`** from thought 1, abandoned in thought 4',
+          '    - **2.** Alternative: use RabbitMQ.',
+          '- **2.** _(superseded)_ Use the existing Postgres table as a queue.',
+          '  - 🔄 **Revision 3** (replaces thought 2): Postgres with SKIP LOCKED handles the load.',
+          '## Conclusion',
+          'Keep Postgres; RabbitMQ adds an operations burden.',
+        ]),
+        ...expectLines('mermaid export', results[6], [
+          'flowchart TD',
+          '  t2["2 [rabbit]: Alternative: use RabbitMQ."]',
+          '  t0 --> t1',
+          '  t0 -.->|"rabbit"| t2',
+          '  t1 ==>|"revised by"| t3',
+          '  class t1 superseded',
+        ]),
+        ...expectLines('dot export', results[7], [
+          `digraph "reasoning-e2e-export-${timestamp}" {`,
+          '  t1 [label="2: Use the existing Postgres table as a ...", style="rounded,filled,dashed", fillcolor="#eeeeee", color="#999999", fontcolor="#999999"];',
+          '  t0 -> t1;',
+          '  t0 -> t2 [label="rabbit", style=dashed, color="#1f77b4", fontcolor="#1f77b4"];',
+          '  t1 -> t3 [label="revised by", style=bold, color="#d62728", fontcolor="#d62728"];',
+        ]),
+      ];
+    },
+  },
+
+  adr: {
+    name: 'Architecture decision record',
+    description:
+      'Tests an ADR written from an architecture-decision session, and that the next session does not inherit the prompt',
+    thoughts: [
+      {
+        method: 'prompts/get',
+        params: {
+          name: 'architecture-decision',
+          arguments: {
+            decision_context: 'Choose a queue for order events',
+            constraints: 'Operations team of two',
+            options: 'Postgres, RabbitMQ',
+            working_directory: configDir,
+          },
+        },
+      },
+      {
+        thought: 'Context: three services write order events that billing must process once.',
+        thought_number: 1,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        session_id: `e2e-adr-${timestamp}`,
+      },
+      {
+        thought: 'Options: a Postgres table read with SKIP LOCKED, or RabbitMQ.',
+        thought_number: 2,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        session_id: `e2e-adr-${timestamp}`,
+      },
+      {
+        thought: 'Evaluation: Postgres needs no new infrastructure; RabbitMQ scales further.',
+        thought_number: 3,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        session_id: `e2e-adr-${timestamp}`,
+      },
+      {
+        thought: 'Decision: use the Postgres table with SKIP LOCKED.',
+        thought_number: 4,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        session_id: `e2e-adr-${timestamp}`,
+      },
+      {
+        thought: 'Consequences: revisit the choice once the load exceeds 1000 events per second.',
+        thought_number: 5,
+        total_thoughts: 5,
+        next_thought_needed: false,
+        session_id: `e2e-adr-${timestamp}`,
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-adr',
+          arguments: { session_id: `e2e-adr-${timestamp}`, write: true },
+        },
+      },
+      {
+        thought: 'Pick a cache for product pages.',
+        thought_number: 1,
+        total_thoughts: 2,
+        next_thought_needed: true,
+        session_id: `e2e-adr-next-${timestamp}`,
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-adr',
+          arguments: { session_id: `e2e-adr-next-${timestamp}` },
+        },
+      },
+    ],
+    expectedSuccessCount: 9,
+    expectedErrorCount: 0,
+    verify: results => {
+      const errors: string[] = [];
+      const text = (index: number, part = 0) => {
+        const content = results[index].response?.result?.content as { text?: string }[] | undefined;
+        return content?.[part]?.text ?? '';
+      };
+
+      const adr = text(6).split('\n');
+      const expectedLines = [
+        '# 0001. Choose a queue for order events',
+        '- Status: accepted',
+        `- Reasoning session: \`e2e-adr-${timestamp}\``,
+        '- Operations team of two',
+        '- Postgres',
+        '- RabbitMQ',
+        'Decision: use the Postgres table with SKIP LOCKED.',
+        'Consequences: revisit the choice once the load exceeds 1000 events per second.',
+      ];
+      for (const line of expectedLines) {
+        if (!adr.includes(line)) {
+          errors.push(`ADR: expected the line ${JSON.stringify(line)}`);
+        }
+      }
+      const outcome = adr.indexOf('## Decision Outcome');
+      if (
+        outcome === -1 ||
+        adr[outcome + 2] !== 'Decision: use the Postgres table with SKIP LOCKED.'
+      ) {
+        errors.push('ADR: expected the decision thought under Decision Outcome');
+      }
+
+      const adrPath = path.join(
+        configDir,
+        'docs',
+        'adr',
+        '0001-choose-a-queue-for-order-events.md'
+      );
+      if (text(6, 1) !== `ADR written to ${adrPath}`) {
+        errors.push(`ADR: expected it written to ${adrPath}, got ${JSON.stringify(text(6, 1))}`);
+      } else if (fs.readFileSync(adrPath, 'utf8') !== text(6)) {
+        errors.push('ADR: the written file differs from the returned ADR');
+      }
+
+      // The prompt was used up by the first session, so the next one has no origin
+      if (
+        results[8].response?.result?.isError !== true ||
+        !text(8).includes('was not started from the architecture-decision prompt')
+      ) {
+        errors.push(`next session: expected no ADR origin, got ${JSON.stringify(text(8))}`);
+      }
+      return errors;
+    },
+  },
+
+  resources: {
+    name: 'Session resources',
+    description:
+      'Tests that sessions and branches are listed and read as resources, stored ones included',
+    server: {
+      files: {
+        'sessions/e2e-stored.json': JSON.stringify({
+          id: 'e2e-stored',
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+          thoughts: [
+            {
+              thought: 'Stored by an earlier server process.',
+              thought_number: 1,
+              total_thoughts: 1,
+              next_thought_needed: false,
+            },
+          ],
+        }),
+        'sessions/e2e-broken.json': JSON.stringify({ id: 'e2e-broken' }),
+      },
+    },
+    thoughts: [
+      {
+        thought: 'Decide where the rate limiter keeps its counters.',
+        thought_number: 1,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: 'e2e-resources',
+      },
+      {
+        thought: 'Alternative: keep the counters in Redis.',
+        thought_number: 2,
+        total_thoughts: 3,
+        branch_from_thought: 1,
+        branch_id: 'redis',
+        next_thought_needed: true,
+        session_id: 'e2e-resources',
+      },
+      { method: 'resources/list' },
+      { method: 'resources/list' },
+      {
+        method: 'resources/read',
+        params: { uri: 'reasoning://session/e2e-resources/branch/redis' },
+      },
+    ],
+    expectedSuccessCount: 5,
+    expectedErrorCount: 0,
+    verify: (results, output) => {
+      const failures: string[] = [];
+      const resources = (results[3].response?.result?.resources ?? []) as {
+        uri: string;
+        description?: string;
+      }[];
+      const descriptions = Object.fromEntries(resources.map(r => [r.uri, r.description]));
+      for (const [uri, description] of [
+        ['reasoning://session/e2e-resources', '2 thoughts, last updated '],
+        ['reasoning://session/e2e-resources/branch/redis', '1 thought'],
+        [
+          'reasoning://session/e2e-stored',
+          '1 thought, last updated 2025-01-01T00:00:00.000Z: Stored by an earlier server process.',
+        ],
+      ]) {
+        if (!descriptions[uri]?.startsWith(description)) {
+          failures.push(
+            `resources/list: expected ${uri} described as '${description}', got ${JSON.stringify(descriptions[uri])}`
+          );
+        }
+      }
+      if (resources.some(r => r.uri.includes('e2e-broken'))) {
+        failures.push('resources/list: expected the invalid session file to be skipped');
+      }
+      // The second listing reuses the metadata of the unchanged files
+      const parsed = output.stderr.split('Skipping invalid session file').length - 1;
+      if (parsed !== 1) {
+        failures.push(`stderr: expected the invalid session file to be read once, got ${parsed}`);
+      }
+
+      const contents = (results[4].response?.result?.contents ?? []) as {
+        mimeType?: string;
+        text?: string;
+      }[];
+      const markdown = contents.find(c => c.mimeType === 'text/markdown')?.text ?? '';
+      if (!markdown.includes('Alternative: keep the counters in Redis.')) {
+        failures.push(
+          `resources/read: expected the branch's thought, got ${JSON.stringify(markdown)}`
+        );
+      }
+      return failures;
+    },
+  },
+
+  subscribe: {
+    name: 'Resource subscriptions',
+    description: 'Tests that subscribers of a session or branch are notified as thoughts arrive',
+    thoughts: [
+      {
+        thought: 'Find out why the nightly export job runs twice.',
+        thought_number: 1,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        session_id: `e2e-subscribe-${timestamp}`,
+      },
+      {
+        method: 'resources/subscribe',
+        params: { uri: `reasoning://session/e2e-subscribe-${timestamp}` },
+      },
+      {
+        method: 'resources/subscribe',
+        params: { uri: `reasoning://session/e2e-subscribe-${timestamp}/branch/cron` },
+      },
+      {
+        thought: 'Alternative: two cron entries schedule the job.',
+        thought_number: 2,
+        total_thoughts: 4,
+        branch_from_thought: 1,
+        branch_id: 'cron',
+        next_thought_needed: true,
+        session_id: `e2e-subscribe-${timestamp}`,
+      },
+      {
+        thought: 'The job retries after a timeout without cancelling the first run.',
+        thought_number: 2,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        session_id: `e2e-subscribe-${timestamp}`,
+      },
+      {
+        method: 'resources/unsubscribe',
+        params: { uri: `reasoning://session/e2e-subscribe-${timestamp}` },
+      },
+      {
+        thought: 'Cancel the first run before retrying.',
+        thought_number: 3,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        session_id: `e2e-subscribe-${timestamp}`,
+      },
+    ],
+    expectedSuccessCount: 7,
+    expectedErrorCount: 0,
+    verify: (_results, output) => {
+      const updated = output.stdout
+        .split('\n')
+        .filter(line => line.includes('notifications/resources/updated'))
+        .map(line => (JSON.parse(line) as { params: { uri: string } }).params.uri);
+      const count = (uri: string) => updated.filter(u => u === uri).length;
+      const sessionUri = `reasoning://session/e2e-subscribe-${timestamp}`;
+
+      const failures: string[] = [];
+      // Thoughts 2 and 3 arrive while subscribed; thought 4 after unsubscribing
+      if (count(sessionUri) !== 2) {
+        failures.push(`Expected 2 updates of the session, got ${count(sessionUri)}`);
+      }
+      // Only the thought on the branch updates it
+      if (count(`${sessionUri}/branch/cron`) !== 1) {
+        failures.push(`Expected 1 update of the branch, got ${count(`${sessionUri}/branch/cron`)}`);
+      }
+      return failures;
+    },
+  },
+
+  http: {
+    name: 'Streamable HTTP transport',
+    description:
+      'Tests origin checks, the body limit, idle close, isolation and resuming after reconnecting over HTTP',
+    server: {
+      args: ['--transport', 'http', '--port', String(httpPort), '--http-idle-timeout-ms', '1000'],
+    },
+    thoughts: [],
+    check: async serverConfigDir => {
+      const failures: string[] = [];
+      const sessionId = `e2e-http-${timestamp}`;
+
+      const foreign = await connectHttp({ Origin: 'http://attacker.example' });
+      if (foreign.status !== 403) {
+        failures.push(`Expected a foreign origin to be refused with 403, got ${foreign.status}`);
+      }
+
+      const first = await connectHttp({ Origin: 'http://localhost:5173' });
+      if (first.status !== 200 || !first.connectionId) {
+        return [...failures, `Expected a localhost origin to connect, got ${first.status}`];
+      }
+      for (const n of [1, 2]) {
+        const payload = await sendThoughtHttp(first.connectionId, {
+          thought: `Step ${n} of tracing the slow dashboard query.`,
+          thought_number: n,
+          total_thoughts: 3,
+          next_thought_needed: true,
+          session_id: sessionId,
+        });
+        failures.push(...expectFields(`Thought #${n}`, payload, { status: 'processed' }));
+      }
+
+      const other = await connectHttp();
+      const listed = await postMcp(
+        { jsonrpc: '2.0', id: 1, method: 'resources/list', params: {} },
+        other.connectionId
+      );
+      const uris = ((listed.messages[0]?.result?.resources ?? []) as { uri: string }[]).map(
+        r => r.uri
+      );
+      if (listed.status !== 200 || uris.includes(`reasoning://session/${sessionId}`)) {
+        failures.push(
+          `Another connection should not list the session, got ${JSON.stringify(uris)}`
+        );
+      }
+
+      const tooLarge = await postMcp(
+        {
+          jsonrpc: '2.0',
+          id: 2,
+          method: 'tools/call',
+          params: {
+            name: 'code-reasoning',
+            arguments: { thought: 'x'.repeat(4 * 1024 * 1024), thought_number: 1 },
+          },
+        },
+        other.connectionId
+      );
+      if (tooLarge.status !== 400 || !tooLarge.text.includes('exceeds')) {
+        failures.push(
+          `Expected a body over 4 MB to be refused with 400, got ${tooLarge.status} ${tooLarge.text}`
+        );
+      }
+
+      // Both connections stay idle for longer than --http-idle-timeout-ms
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const idle = await postMcp(
+        { jsonrpc: '2.0', id: 3, method: 'resources/list', params: {} },
+        first.connectionId
+      );
+      if (idle.status !== 400) {
+        failures.push(`Expected the idle connection to be closed, got ${idle.status}`);
+      }
+
+      // The client reconnects and resumes its session by id
+      const reconnected = await connectHttp();
+      const resumed = await sendThoughtHttp(reconnected.connectionId, {
+        thought: 'The query scans the events table without using the date index.',
+        thought_number: 3,
+        total_thoughts: 3,
+        next_thought_needed: false,
+        session_id: sessionId,
+      });
+      failures.push(
+        ...expectFields('Thought #3 after reconnecting', resumed, {
+          status: 'processed',
+          session_id: sessionId,
+          thought_history_length: 3,
+        })
+      );
+      const movedFile = path.join(
+        serverConfigDir,
+        'sessions',
+        'connections',
+        reconnected.connectionId ?? '',
+        `${sessionId}.json`
+      );
+      if (!fs.existsSync(movedFile)) {
+        failures.push('Expected the resumed session to move to the new connection');
+      }
+      return failures;
+    },
+  },
+
+  strict: {
+    name: 'Strict sequence validation',
+    description:
+      'Tests that strict mode rejects sequence problems with issues and a corrected example',
+    server: { args: ['--sequence-validation', 'strict'] },
+    thoughts: [
+      {
+        thought: 'Outline how requests reach the cache.',
+        thought_number: 1,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'This thought skips thought 2.',
+        thought_number: 3,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'This revision points to a later thought.',
+        thought_number: 2,
+        total_thoughts: 3,
+        is_revision: true,
+        revises_thought: 5,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Measure the hit rate of the cache.',
+        thought_number: 2,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'This branch does not start at the thought after its origin.',
+        thought_number: 4,
+        total_thoughts: 3,
+        branch_from_thought: 1,
+        branch_id: 'lru',
+        next_thought_needed: true,
+      },
+      {
+        thought: 'This branch starts from a thought that does not exist.',
+        thought_number: 10,
+        total_thoughts: 10,
+        branch_from_thought: 9,
+        branch_id: 'lru',
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Alternative: evict the least recently used entries.',
+        thought_number: 2,
+        total_thoughts: 3,
+        branch_from_thought: 1,
+        branch_id: 'lru',
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Start a named session for the eviction policy.',
+        thought_number: 1,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-strict-${timestamp}`,
+      },
+      {
+        thought: 'Start another session for the warm-up job.',
+        thought_number: 1,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'Rejected: skips thought 2 of the named session.',
+        thought_number: 3,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-strict-${timestamp}`,
+      },
+      {
+        thought: 'Continue the warm-up job.',
+        thought_number: 2,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+    ],
+    expectedSuccessCount: 11,
+    expectedErrorCount: 0,
+    verify: results => {
+      const [
+        first,
+        skipped,
+        forward,
+        corrected,
+        branchSkipped,
+        branchMissing,
+        branch,
+        ,
+        warmUp,
+        rejected,
+        continued,
+      ] = results.map(toolPayload);
+      return [
+        ...expectFields('Thought #1', first, { status: 'processed' }),
+        ...expectFields('Thought #2', skipped, {
+          status: 'failed',
+          error_code: 'sequence_error',
+          issue_codes: ['skipped_thought_number'],
+          example_thought_number: 2,
+        }),
+        ...expectFields('Thought #3', forward, {
+          status: 'failed',
+          error_code: 'sequence_error',
+          issue_codes: ['revision_points_forward'],
+        }),
+        ...expectFields('Thought #4', corrected, {
+          status: 'processed',
+          thought_history_length: 2,
+          warnings: [],
+        }),
+        ...expectFields('Thought #5', branchSkipped, {
+          status: 'failed',
+          error_code: 'sequence_error',
+          issue_codes: ['skipped_thought_number'],
+          example_thought_number: 2,
+        }),
+        ...expectFields('Thought #6', branchMissing, {
+          status: 'failed',
+          error_code: 'sequence_error',
+          issue_codes: ['branch_origin_missing'],
+        }),
+        ...expectFields('Thought #7', branch, {
+          status: 'processed',
+          active_branch: 'lru',
+          warnings: [],
+        }),
+        ...expectFields('Thought #10', rejected, {
+          status: 'failed',
+          error_code: 'sequence_error',
+        }),
+        // A rejected thought must not switch the current session
+        ...expectFields('Thought #11', continued, {
+          status: 'processed',
+          session_id: warmUp?.session_id,
+          thought_history_length: 2,
+        }),
+      ];
+    },
+  },
+  lenient: {
+    name: 'Lenient sequence validation',
+    description: 'Tests that lenient mode accepts sequence problems and reports them as warnings',
+    thoughts: [
+      {
+        thought: 'Outline how requests reach the cache.',
+        thought_number: 1,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+      {
+        thought: 'This thought skips thought 2.',
+        thought_number: 3,
+        total_thoughts: 3,
+        next_thought_needed: true,
+      },
+    ],
+    expectedSuccessCount: 2,
+    expectedErrorCount: 0,
+    verify: results => {
+      const skipped = toolPayload(results[1]);
+      const warnings = (skipped?.warnings as string[] | undefined) ?? [];
+      return [
+        ...expectFields('Thought #2', skipped, { status: 'processed', thought_history_length: 2 }),
+        ...(warnings.some(w => w.includes('thought_number 3 skips ahead'))
+          ? []
+          : [`Thought #2 should warn about the skipped number, got ${JSON.stringify(warnings)}`]),
+      ];
+    },
+  },
+
+  coaching: {
+    name: 'Coaching guidance',
+    description: 'Tests the coaching hints returned with accepted thoughts',
+    thoughts: [
+      {
+        thought: 'The cache misses on every product page after the deploy.',
+        thought_number: 1,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-coaching-${timestamp}`,
+      },
+      {
+        thought: 'The cache key now includes the request id added by the new middleware.',
+        thought_number: 2,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-coaching-${timestamp}`,
+      },
+      {
+        thought: 'Removing the request id from the key should restore the hit rate.',
+        thought_number: 3,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-coaching-${timestamp}`,
+      },
+      {
+        thought: 'The middleware also sets a no-store header on product pages.',
+        thought_number: 4,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-coaching-${timestamp}`,
+      },
+      {
+        thought: 'Both the key and the header need fixing in the middleware config.',
+        thought_number: 5,
+        total_thoughts: 6,
+        next_thought_needed: true,
+        session_id: `e2e-coaching-${timestamp}`,
+      },
+      {
+        thought: 'Only the header needs fixing; the key change was reverted last week.',
+        thought_number: 6,
+        total_thoughts: 6,
+        next_thought_needed: true,
+        is_revision: true,
+        revises_thought: 5,
+        session_id: `e2e-coaching-${timestamp}`,
+      },
+      {
+        thought: 'Remove the no-store header for product pages in the middleware config.',
+        thought_number: 7,
+        total_thoughts: 7,
+        next_thought_needed: false,
+        session_id: `e2e-coaching-${timestamp}`,
+      },
+    ],
+    expectedSuccessCount: 7,
+    expectedErrorCount: 0,
+    verify: results => {
+      const expected = [
+        [],
+        [],
+        ['review_checkpoint'],
+        ['total_exceeded'],
+        ['no_branch'],
+        ['review_checkpoint'],
+        ['unverified_revision', 'no_alternatives'],
+      ];
+      return expected.flatMap((rules, i) => {
+        const guidance = toolPayload(results[i])?.guidance as { rule: string }[] | undefined;
+        const actual = guidance?.map(hint => hint.rule);
+        return JSON.stringify(actual) === JSON.stringify(rules)
+          ? []
+          : [
+              `Thought #${i + 1}: expected guidance ${JSON.stringify(rules)}, got ${JSON.stringify(actual)}`,
+            ];
+      });
+    },
+  },
+
+  progress: {
+    name: 'Progress tracking',
+    description:
+      'Tests the progress, estimate drift and stall reported with thoughts and the summary',
+    server: { args: ['--stall-after', '3'] },
+    thoughts: [
+      {
+        thought: 'The nightly export takes six hours instead of one.',
+        thought_number: 1,
+        total_thoughts: 2,
+        next_thought_needed: true,
+        session_id: `e2e-progress-${timestamp}`,
+      },
+      {
+        thought: 'The export query scans the whole orders table.',
+        thought_number: 2,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-progress-${timestamp}`,
+      },
+      {
+        thought: 'An index on the updated_at column would let it read only the changed rows.',
+        thought_number: 3,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        session_id: `e2e-progress-${timestamp}`,
+      },
+      {
+        thought: 'Alternatively, export from the read replica so the scan does not matter.',
+        thought_number: 4,
+        total_thoughts: 5,
+        branch_from_thought: 3,
+        branch_id: 'replica',
+        next_thought_needed: true,
+        session_id: `e2e-progress-${timestamp}`,
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-summary',
+          arguments: { session_id: `e2e-progress-${timestamp}` },
+        },
+      },
+    ],
+    expectedSuccessCount: 5,
+    expectedErrorCount: 0,
+    verify: results => {
+      const [first, raised, stalled, branched, summary] = results.map(toolPayload);
+      const progress = (label: string, payload: typeof first, expected: Record<string, unknown>) =>
+        expectFields(label, payload?.progress as Record<string, unknown> | undefined, expected);
+      const warnings = (label: string, payload: typeof first, expected: string[]) => {
+        const actual = (payload?.warnings as string[] | undefined) ?? [];
+        return actual.length === expected.length &&
+          expected.every((start, i) => actual[i].startsWith(start))
+          ? []
+          : [
+              `${label}: expected warnings starting with ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`,
+            ];
+      };
+
+      const afterBranch = {
+        ratio: 0.8,
+        initial_estimate: 2,
+        current_estimate: 5,
+        estimate_raises: 2,
+        thoughts_since_milestone: 0,
+        stalled: false,
+      };
+      return [
+        ...progress('Thought #1', first, {
+          ratio: 0.5,
+          initial_estimate: 2,
+          current_estimate: 2,
+          estimate_raises: 0,
+          thoughts_since_milestone: 1,
+          stalled: false,
+        }),
+        ...warnings('Thought #1', first, []),
+        // Raised, but not yet to twice the first estimate
+        ...progress('Thought #2', raised, { ratio: 0.67, estimate_raises: 1, stalled: false }),
+        ...warnings('Thought #2', raised, []),
+        ...progress('Thought #3', stalled, {
+          ratio: 0.6,
+          current_estimate: 5,
+          estimate_raises: 2,
+          thoughts_since_milestone: 3,
+          stalled: true,
+        }),
+        ...warnings('Thought #3', stalled, [
+          'No branch, revision or conclusion in the last 3 thoughts.',
+          'total_thoughts grew from 2 to 5 over 2 raises.',
+        ]),
+        // A branch is a milestone, so it ends the stall
+        ...progress('Thought #4', branched, afterBranch),
+        ...warnings('Thought #4', branched, []),
+        ...progress('Summary', summary, afterBranch),
+      ];
+    },
+  },
+
+  closing: {
+    name: 'Branch closing',
+    description:
+      'Tests merging and abandoning branches, and rejecting closes of unknown or closed branches',
+    server: { args: ['--sequence-validation', 'strict'] },
+    thoughts: [
+      {
+        thought: 'Pick a cache for product pages.',
+        thought_number: 1,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        session_id: `e2e-closing-${timestamp}`,
+      },
+      {
+        thought: 'Redis: shared across instances, one more service to run.',
+        thought_number: 2,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        branch_from_thought: 1,
+        branch_id: 'redis',
+        session_id: `e2e-closing-${timestamp}`,
+      },
+      {
+        thought: 'Memcached: simpler, but no persistence or replication.',
+        thought_number: 2,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        branch_from_thought: 1,
+        branch_id: 'memcached',
+        session_id: `e2e-closing-${timestamp}`,
+      },
+      {
+        thought: 'Use Redis; we already run it for sessions.',
+        thought_number: 2,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        merge_branch_id: 'redis',
+        session_id: `e2e-closing-${timestamp}`,
+      },
+      {
+        thought: 'Memcached would be a second cache service to operate.',
+        thought_number: 3,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        abandon_branch_id: 'memcached',
+        session_id: `e2e-closing-${timestamp}`,
+      },
+      {
+        thought: 'Redis is already merged into the plan.',
+        thought_number: 4,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        merge_branch_id: 'redis',
+        session_id: `e2e-closing-${timestamp}`,
+      },
+      {
+        thought: 'Varnish could cache whole pages instead.',
+        thought_number: 4,
+        total_thoughts: 4,
+        next_thought_needed: true,
+        merge_branch_id: 'varnish',
+        session_id: `e2e-closing-${timestamp}`,
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-summary',
+          arguments: { session_id: `e2e-closing-${timestamp}` },
+        },
+      },
+    ],
+    expectedSuccessCount: 8,
+    expectedErrorCount: 0,
+    verify: results => {
+      const payloads = results.map(toolPayload);
+      const summary = payloads[7];
+      const closed = (summary?.closed_branches as Record<string, unknown>[] | undefined)?.map(b =>
+        [b.branch_id, b.status, b.closed_by_thought].join(':')
+      );
+      return [
+        ...expectFields('Thought #3', payloads[2], { open_branches: ['redis', 'memcached'] }),
+        ...expectFields('Merge', payloads[3], {
+          status: 'processed',
+          open_branches: ['memcached'],
+        }),
+        ...expectFields('Abandon', payloads[4], { status: 'processed', open_branches: [] }),
+        ...expectFields('Merge of a merged branch', payloads[5], {
+          error_code: 'sequence_error',
+          issue_codes: ['branch_already_closed'],
+        }),
+        ...expectFields('Merge of an unknown branch', payloads[6], {
+          error_code: 'sequence_error',
+          issue_codes: ['branch_not_found'],
+        }),
+        ...expectFields('Summary', summary, { open_branches: [] }),
+        ...(JSON.stringify(closed) === JSON.stringify(['redis:merged:2', 'memcached:abandoned:3'])
+          ? []
+          : [
+              `Summary: expected redis merged and memcached abandoned, got ${JSON.stringify(closed)}`,
+            ]),
+      ];
+    },
+  },
+
+  questions: {
+    name: 'Assumptions and open questions',
+    description:
+      'Tests that assumptions and open questions are tracked until answered, revised or abandoned',
+    thoughts: [
+      {
+        thought: 'The product API needs a cache.',
+        thought_number: 1,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        confidence: 0.6,
+        assumptions: ['The API is read-heavy'],
+        open_questions: ['How large is the working set?'],
+        session_id: `e2e-questions-${timestamp}`,
+      },
+      {
+        thought: 'Cache responses in process for a minute.',
+        thought_number: 2,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        assumptions: ['Entries may be a minute stale'],
+        session_id: `e2e-questions-${timestamp}`,
+      },
+      {
+        thought: 'Put the API behind a CDN instead.',
+        thought_number: 3,
+        total_thoughts: 5,
+        branch_from_thought: 2,
+        branch_id: 'cdn',
+        next_thought_needed: true,
+        assumptions: ['Responses are public'],
+        open_questions: ['Does the CDN purge by tag?'],
+        session_id: `e2e-questions-${timestamp}`,
+      },
+      {
+        thought: 'The working set is 200 MB, so the CDN is not needed.',
+        thought_number: 3,
+        total_thoughts: 5,
+        abandon_branch_id: 'cdn',
+        next_thought_needed: true,
+        answered_questions: ['how large is the working set'],
+        session_id: `e2e-questions-${timestamp}`,
+      },
+      {
+        thought: 'Cache responses in process and invalidate them on writes.',
+        thought_number: 4,
+        total_thoughts: 5,
+        is_revision: true,
+        revises_thought: 2,
+        next_thought_needed: true,
+        session_id: `e2e-questions-${timestamp}`,
+      },
+      {
+        thought: 'Invalidation on writes keeps entries fresh.',
+        thought_number: 5,
+        total_thoughts: 5,
+        next_thought_needed: true,
+        answered_questions: ['Which TTL should we use?'],
+        session_id: `e2e-questions-${timestamp}`,
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-summary',
+          arguments: { session_id: `e2e-questions-${timestamp}` },
+        },
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-export',
+          arguments: { session_id: `e2e-questions-${timestamp}` },
+        },
+      },
+    ],
+    expectedSuccessCount: 8,
+    expectedErrorCount: 0,
+    verify: results => {
+      const unknownAnswer = toolPayload(results[5]);
+      const summary = toolPayload(results[6]);
+      const warnings = (unknownAnswer?.warnings as string[] | undefined) ?? [];
+
+      return [
+        // The revision of thought 2 dropped its assumption, and abandoning cdn dropped the rest
+        ...expectFields('Summary', summary, {
+          assumptions: [{ text: 'The API is read-heavy', thought_number: 1 }],
+          open_questions: [],
+          answered_questions: [
+            { text: 'How large is the working set?', thought_number: 1, answered_in: 3 },
+          ],
+        }),
+        ...(warnings.some(w => w.includes("'Which TTL should we use?'"))
+          ? []
+          : [
+              `Thought #6: expected a warning about the unknown question, got ${JSON.stringify(warnings)}`,
+            ]),
+        ...expectLines('markdown export', results[7], [
+          '- **1.** _(confidence 0.6)_ The product API needs a cache.',
+          '## Assumptions',
+          '- The API is read-heavy _(thought 1)_',
+        ]),
+      ];
+    },
+  },
+
+  kinds: {
+    name: 'Thought kinds and hypotheses',
+    description:
+      'Tests filtering by kind and tag, and the status of hypotheses in the summary and the bug report',
+    thoughts: [
+      {
+        thought: 'Product pages miss the cache after the deploy.',
+        thought_number: 1,
+        total_thoughts: 6,
+        next_thought_needed: true,
+        kind: 'observation',
+        tags: ['cache'],
+        session_id: `e2e-kinds-${timestamp}`,
+      },
+      {
+        thought: 'The new middleware adds the request id to the cache key.',
         thought_number: 2,
-        total_thoughts: 4,
+        total_thoughts: 6,
         next_thought_needed: true,
+        kind: 'hypothesis',
+        tags: ['cache', 'middleware'],
+        session_id: `e2e-kinds-${timestamp}`,
       },
       {
-        thought: 'Third step: Analyze each part and identify solutions.',
+        thought: 'The CDN strips the cache headers.',
         thought_number: 3,
-        total_thoughts: 4,
+        total_thoughts: 6,
         next_thought_needed: true,
+        kind: 'hypothesis',
+        tags: ['cdn'],
+        session_id: `e2e-kinds-${timestamp}`,
       },
       {
-        thought: 'Fourth step: Combine the solutions into a comprehensive approach.',
+        thought: 'CDN responses still carry the cache headers.',
         thought_number: 4,
-        total_thoughts: 4,
+        total_thoughts: 6,
+        next_thought_needed: true,
+        kind: 'observation',
+        tags: ['cdn'],
+        refutes_hypothesis: 3,
+        session_id: `e2e-kinds-${timestamp}`,
+      },
+      {
+        thought: 'Removing the middleware restores the hit rate.',
+        thought_number: 5,
+        total_thoughts: 6,
+        next_thought_needed: true,
+        kind: 'experiment',
+        tags: ['cache', 'middleware'],
+        confirms_hypothesis: 2,
+        session_id: `e2e-kinds-${timestamp}`,
+      },
+      {
+        thought: 'Exclude the request id from the cache key.',
+        thought_number: 6,
+        total_thoughts: 6,
         next_thought_needed: false,
+        kind: 'conclusion',
+        tags: ['middleware'],
+        session_id: `e2e-kinds-${timestamp}`,
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-summary',
+          arguments: {
+            session_id: `e2e-kinds-${timestamp}`,
+            kinds: ['hypothesis'],
+            tags: ['CACHE'],
+          },
+        },
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-export',
+          arguments: {
+            session_id: `e2e-kinds-${timestamp}`,
+            kinds: ['hypothesis'],
+            tags: ['CACHE'],
+          },
+        },
+      },
+      {
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-export',
+          arguments: { session_id: `e2e-kinds-${timestamp}`, format: 'hypotheses' },
+        },
       },
     ],
-    expectedSuccessCount: 4,
+    expectedSuccessCount: 9,
     expectedErrorCount: 0,
+    verify: results => {
+      const summary = toolPayload(results[6]);
+      const filtered = (summary?.filtered_thoughts as SummaryThought[] | undefined)?.map(
+        t => t.thought_number
+      );
+      return [
+        // Tags are compared case-insensitively, and a thought must carry all of them
+        ...(JSON.stringify(filtered) === JSON.stringify([2])
+          ? []
+          : [`Summary: expected filtered_thoughts [2], got ${JSON.stringify(filtered)}`]),
+        ...expectFields('Summary', summary, {
+          hypotheses: [
+            {
+              thought_number: 2,
+              thought: 'The new middleware adds the request id to the cache key.',
+              status: 'confirmed',
+              settled_by_thought: 5,
+            },
+            {
+              thought_number: 3,
+              thought: 'The CDN strips the cache headers.',
+              status: 'refuted',
+              settled_by_thought: 4,
+            },
+          ],
+        }),
+        ...expectLines('markdown export', results[7], [
+          '_Thoughts with kind hypothesis, tag CACHE._',
+          '- **2.** 💡 _hypothesis_ `#cache` `#middleware` The new middleware adds the request id to the cache key.',
+        ]),
+        ...expectLines('hypotheses export', results[8], [
+          '- Hypotheses: 2 (1 confirmed, 1 refuted, 0 open)',
+          '- **Hypothesis 2**: The new middleware adds the request id to the cache key.',
+          '  - **✅ Confirmed by thought 5**: Removing the middleware restores the hit rate.',
+          '- **Hypothesis 3**: The CDN strips the cache headers.',
+          '  - **❌ Refuted by thought 4**: CDN responses still carry the cache headers.',
+        ]),
+      ];
+    },
   },
 
-  branch: {
-    name: 'Thought flow with branching',
-    description: 'Tests the ability to branch into alternative thought paths',
+  timeout: {
+    name: 'Idle session timeout',
+    description: 'Tests that a session idle for longer than --timeout-ms is closed',
+    server: { args: ['--timeout-ms', '1000'] },
     thoughts: [
       {
-        thought: 'Main approach: Define the problem scope.',
+        thought: 'List the services that read the feature flags.',
         thought_number: 1,
-        total_thoughts: 5,
+        total_thoughts: 3,
         next_thought_needed: true,
+        session_id: `e2e-timeout-${timestamp}`,
       },
       {
-        thought: 'Identify potential solution methodologies.',
+        method: 'tools/call',
+        delayMs: 2000,
+        params: {
+          name: 'code-reasoning',
+          arguments: {
+            thought: 'Continue after the session went idle.',
+            thought_number: 2,
+            total_thoughts: 3,
+            next_thought_needed: true,
+          },
+        },
+      },
+      {
+        thought: 'Resume the idle session by id.',
         thought_number: 2,
-        total_thoughts: 5,
+        total_thoughts: 3,
         next_thought_needed: true,
+        session_id: `e2e-timeout-${timestamp}`,
       },
       {
-        thought: 'Alternative approach: Consider the problem from first principles.',
-        thought_number: 3,
-        total_thoughts: 5,
-        branch_from_thought: 1,
-        branch_id: 'B1',
+        method: 'tools/call',
+        params: {
+          name: 'code-reasoning-summary',
+          arguments: { session_id: `e2e-timeout-${timestamp}` },
+        },
+      },
+    ],
+    expectedSuccessCount: 4,
+    expectedErrorCount: 0,
+    verify: results => {
+      const [first, continued, resumed, summary] = results.map(toolPayload);
+      return [
+        ...expectFields('Thought #1', first, { status: 'processed' }),
+        ...expectFields('Thought #2', continued, {
+          status: 'failed',
+          error_code: 'session_closed',
+          session_id: `e2e-timeout-${timestamp}`,
+        }),
+        ...expectFields('Thought #3', resumed, {
+          status: 'failed',
+          error_code: 'session_closed',
+          session_id: `e2e-timeout-${timestamp}`,
+        }),
+        // A closed session can still be summarized from the archive
+        ...expectFields('Summary', summary, { thought_count: 1 }),
+      ];
+    },
+  },
+
+  logging: {
+    name: 'Structured logging',
+    description:
+      'Tests JSON log records on stderr, and log notifications at the level the client asked for',
+    server: { args: ['--log-format', 'json'] },
+    thoughts: [
+      {
+        thought: 'Trace which request sets the stale session cookie.\nStart at the login handler.',
+        thought_number: 1,
+        total_thoughts: 3,
         next_thought_needed: true,
+        session_id: `e2e-logging-${timestamp}`,
       },
+      { method: 'logging/setLevel', params: { level: 'error' } },
       {
-        thought: 'Continue main approach: Evaluate methodologies against requirements.',
+        thought: 'The login handler refreshes the cookie on every request.',
+        thought_number: 2,
+        total_thoughts: 3,
+        next_thought_needed: true,
+        session_id: `e2e-logging-${timestamp}`,
+      },
+      { method: 'logging/setLevel', params: { level: 'debug' } },
+      {
+        thought: 'The refresh reuses the expiry of the old cookie.',
         thought_number: 3,
-        total_thoughts: 5,
+        total_thoughts: 3,
+        next_thought_needed: false,
+        session_id: `e2e-logging-${timestamp}`,
+      },
+    ],
+    expectedSuccessCount: 5,
+    expectedErrorCount: 0,
+    verify: (_results, output) => {
+      const failures: string[] = [];
+      const notifications = output.stdout
+        .split('\n')
+        .filter(line => line.includes('"notifications/message"'))
+        .map(
+          line =>
+            (JSON.parse(line) as { params: { level: string; data: Record<string, unknown> } })
+              .params
+        );
+      const processedLevels = (n: number) =>
+        notifications
+          .filter(m => m.data.message === 'Thought processed' && m.data.thought_number === n)
+          .map(m => m.level);
+      // info by default, nothing below error after the first setLevel, then everything
+      for (const [n, expected] of [
+        [1, ['info']],
+        [2, []],
+        [3, ['info']],
+      ] as const) {
+        if (JSON.stringify(processedLevels(n)) !== JSON.stringify(expected)) {
+          failures.push(
+            `notifications: expected ${JSON.stringify(expected)} for thought ${n}, got ${JSON.stringify(processedLevels(n))}`
+          );
+        }
+      }
+      if (
+        !notifications.some(
+          m => m.level === 'debug' && String(m.data.message).includes('reuses the expiry')
+        )
+      ) {
+        failures.push('notifications: expected the debug trace of thought 3');
+      }
+
+      const records: Record<string, unknown>[] = [];
+      for (const line of output.stderr.split('\n').filter(l => l.trim() !== '')) {
+        try {
+          records.push(JSON.parse(line) as Record<string, unknown>);
+        } catch {
+          failures.push(`stderr: expected a JSON log record, got ${JSON.stringify(line)}`);
+        }
+      }
+      for (const record of records) {
+        if (['time', 'level', 'component', 'msg'].some(key => typeof record[key] !== 'string')) {
+          failures.push(
+            `stderr: expected time, level, component and msg in ${JSON.stringify(record)}`
+          );
+        }
+      }
+
+      const processed = records.find(r => r.msg === 'Thought processed');
+      failures.push(
+        ...expectFields('Thought processed record', processed, {
+          level: 'info',
+          component: 'server',
+          session: `e2e-logging-${timestamp}`,
+          thought_number: 1,
+        })
+      );
+      // The multi-line trace of the thought stays within one record
+      if (!records.some(r => r.level === 'debug' && String(r.msg).includes('Start at the login'))) {
+        failures.push('stderr: expected the debug record with the multi-line thought');
+      }
+      return failures;
+    },
+  },
+
+  logfile: {
+    name: 'Log files',
+    description: 'Tests that --log-to-file writes the reasoning trace to rotating log files',
+    server: { args: ['--log-to-file', '--log-file-max-bytes', '1024'] },
+    thoughts: [1, 2, 3].map(n => ({
+      thought: `Step ${n}: check how the retry queue orders failed webhook deliveries.`,
+      thought_number: n,
+      total_thoughts: 3,
+      next_thought_needed: n < 3,
+    })),
+    expectedSuccessCount: 3,
+    expectedErrorCount: 0,
+    verify: (_results, _output, serverConfigDir) => {
+      const logsDir = path.join(serverConfigDir, 'logs');
+      const files = fs.existsSync(logsDir) ? fs.readdirSync(logsDir) : [];
+      const trace = files.map(file => fs.readFileSync(path.join(logsDir, file), 'utf8')).join('');
+
+      const failures: string[] = [];
+      if (!files.includes('code-reasoning.log')) {
+        failures.push(`logs: expected code-reasoning.log, got ${JSON.stringify(files)}`);
+      }
+      if (!files.some(file => /^code-reasoning-.+\.log$/.test(file))) {
+        failures.push(
+          `logs: expected a rotated file beyond 1024 bytes, got ${JSON.stringify(files)}`
+        );
+      }
+      for (const n of [1, 2, 3]) {
+        if (
+          !trace.includes(`Step ${n}: check how the retry queue orders failed webhook deliveries.`)
+        ) {
+          failures.push(`logs: expected the full text of thought ${n}`);
+        }
+      }
+      return failures;
+    },
+  },
+
+  gate: {
+    name: 'Completion gate',
+    description: 'Tests that --completion-gate reject refuses a conclusion while a branch is open',
+    server: { args: ['--completion-gate', 'reject'] },
+    thoughts: [
+      {
+        thought: 'Compare two ways to invalidate the cache.',
+        thought_number: 1,
+        total_thoughts: 3,
         next_thought_needed: true,
       },
       {
-        thought: 'B1: Break down the problem to its fundamental components.',
-        thought_number: 4,
-        total_thoughts: 5,
-        branch_from_thought: 3,
-        branch_id: 'B1',
+        thought: 'Alternative: expire entries with a short TTL.',
+        thought_number: 2,
+        total_thoughts: 3,
+        branch_from_thought: 1,
+        branch_id: 'ttl',
         next_thought_needed: true,
       },
       {
-        thought: 'Final main approach: Select the most appropriate methodology.',
-        thought_number: 4,
-        total_thoughts: 5,
+        thought: 'Invalidate entries on write.',
+        thought_number: 2,
+        total_thoughts: 2,
         next_thought_needed: false,
       },
       {
-        thought: 'B1: Construct solution directly from fundamental components.',
-        thought_number: 5,
-        total_thoughts: 5,
-        branch_from_thought: 4,
-        branch_id: 'B1',
+        thought: 'Invalidate entries on write; the TTL branch adds staleness for no gain.',
+        thought_number: 2,
+        total_thoughts: 2,
+        merge_branch_id: 'ttl',
         next_thought_needed: false,
       },
     ],
-    expectedSuccessCount: 7,
+    expectedSuccessCount: 4,
     expectedErrorCount: 0,
+    verify: results => {
+      const [, , rejected, accepted] = results.map(toolPayload);
+      return [
+        ...expectFields('Thought #3', rejected, {
+          status: 'failed',
+          error_code: 'incomplete_conclusion',
+          issue_codes: ['open_branch'],
+          example_next_thought_needed: true,
+        }),
+        ...expectFields('Thought #4', accepted, { status: 'processed', open_branches: [] }),
+      ];
+    },
   },
 
-  revision: {
-    name: 'Thought flow with revision',
-    description: 'Tests the ability to revise previous thoughts',
+  loop: {
+    name: 'Loop hard stop',
+    description: 'Tests that --loop-max-repeats rejects repeats beyond the limit',
+    server: { args: ['--loop-max-repeats', '1'] },
+    thoughts: [1, 2, 3]
+      .map(n => ({
+        thought:
+          'The cache misses because the cache key includes the request timestamp, so no two requests share an entry.',
+        thought_number: n,
+        total_thoughts: 4,
+        next_thought_needed: true,
+      }))
+      .concat({
+        thought: 'Drop the timestamp from the cache key and measure the hit rate again.',
+        thought_number: 3,
+        total_thoughts: 4,
+        next_thought_needed: true,
+      }),
+    expectedSuccessCount: 4,
+    expectedErrorCount: 0,
+    verify: results => {
+      const [, repeat, stopped, moved] = results.map(toolPayload);
+      return [
+        ...expectFields('Thought #2', repeat, { status: 'processed', repeat_of_thought_number: 1 }),
+        ...expectFields('Thought #3', stopped, { status: 'failed', error_code: 'loop_detected' }),
+        ...expectFields('Thought #4', moved, { status: 'processed', repeat_of: null }),
+      ];
+    },
+  },
+
+  config: {
+    name: 'Configuration layers',
+    description:
+      'Tests that command-line flags override environment variables, which override the config file',
+    server: {
+      config: { maxThoughts: 7, maxThoughtLength: 500, sequenceValidation: 'strict' },
+      env: { CODE_REASONING_MAX_THOUGHTS: '9', CODE_REASONING_MAX_THOUGHT_LENGTH: '600' },
+      args: ['--max-thoughts', '11'],
+    },
     thoughts: [
       {
-        thought: 'Initial analysis of the problem domain.',
+        // Longer than the config file allows, within the environment's limit
+        thought: `Outline the cache design. ${'x'.repeat(525)}`,
         thought_number: 1,
-        total_thoughts: 4,
+        total_thoughts: 11,
         next_thought_needed: true,
       },
       {
-        thought: 'Proposed solution based on initial understanding.',
+        thought: `Too long for the environment's limit. ${'x'.repeat(620)}`,
         thought_number: 2,
-        total_thoughts: 4,
+        total_thoughts: 11,
         next_thought_needed: true,
       },
       {
-        thought:
-          'Wait, I made an error in my initial analysis. The problem actually involves asynchronous operations.',
+        thought: 'Rejected by strict validation from the config file.',
         thought_number: 3,
-        total_thoughts: 5,
-        is_revision: true,
-        revises_thought: 1,
+        total_thoughts: 11,
         next_thought_needed: true,
       },
       {
-        thought: 'Given the asynchronous nature, we need to revise our solution approach.',
-        thought_number: 4,
-        total_thoughts: 5,
-        is_revision: true,
-        revises_thought: 2,
+        thought: 'Beyond the maximum set on the command line.',
+        thought_number: 12,
+        total_thoughts: 12,
         next_thought_needed: true,
       },
-      {
-        thought: 'Final solution incorporating asynchronous handling and error management.',
-        thought_number: 5,
-        total_thoughts: 5,
-        next_thought_needed: false,
-      },
     ],
-    expectedSuccessCount: 5,
+    expectedSuccessCount: 4,
+    expectedErrorCount: 0,
+    verify: results => {
+      const [first, tooLong, skipped, tooMany] = results.map(toolPayload);
+      return [
+        ...expectFields('Thought #1', first, { status: 'processed' }),
+        ...expectFields('Thought #2', tooLong, {
+          status: 'failed',
+          error_code: 'limit_exceeded',
+          error: 'Validation Error: thought: Thought exceeds 600 chars.',
+        }),
+        ...expectFields('Thought #3', skipped, { status: 'failed', error_code: 'sequence_error' }),
+        ...expectFields('Thought #4', tooMany, {
+          status: 'failed',
+          error_code: 'limit_exceeded',
+          error: 'Validation Error: thought_number: Max thought_number exceeded (11).',
+        }),
+      ];
+    },
+  },
+
+  stdout: {
+    name: 'Stray stdout output',
+    description:
+      'Tests that partial and split writes to stdout by other code never swallow a response',
+    server: {
+      nodeArgs: ['--import', `data:text/javascript,${encodeURIComponent(STRAY_STDOUT_MODULE)}`],
+    },
+    thoughts: [1, 2, 3].map(n => ({
+      thought: `Step ${n} of tracing the flaky upload test.`,
+      thought_number: n,
+      total_thoughts: 3,
+      next_thought_needed: n < 3,
+    })),
+    expectedSuccessCount: 3,
     expectedErrorCount: 0,
+    verify: (results, output) => {
+      const failures = results.flatMap((result, i) =>
+        expectFields(`Thought #${i + 1}`, toolPayload(result), { status: 'processed' })
+      );
+      const stdoutLines = output.stdout.split('\n').filter(line => line.trim() !== '');
+      const strayLines = stdoutLines.filter(line => {
+        try {
+          JSON.parse(line);
+          return false;
+        } catch {
+          return true;
+        }
+      });
+      if (strayLines.length > 0) {
+        failures.push(`stdout: expected only JSON-RPC lines, got ${JSON.stringify(strayLines)}`);
+      }
+      // Sent by the server right after the partial line, where it used to get glued on
+      if (!stdoutLines.some(line => line.includes('notifications/resources/list_changed'))) {
+        failures.push('stdout: expected the list_changed notification of the new session');
+      }
+      if (!stdoutLines.some(line => line.includes('"data":"split write"'))) {
+        failures.push('stdout: expected the notification written in two parts');
+      }
+      const stderrLines = output.stderr.split('\n');
+      if (!stderrLines.includes('progress: 50%')) {
+        failures.push("stderr: expected the diverted line 'progress: 50%'");
+      }
+      if (!stderrLines.includes('hex encoded')) {
+        failures.push("stderr: expected the hex-encoded line decoded as 'hex encoded'");
+      }
+      // Sent on to stderr while the line is still unfinished, instead of piling up in memory
+      if (!output.stderr.includes(OVERLONG_LINE)) {
+        failures.push('stderr: expected the overlong unfinished line');
+      }
+      return failures;
+    },
   },
 
   error: {
@@ -369,7 +2161,7 @@ const testScenarios: Record<string, TestScenario> = {
         next_thought_needed: true,
       },
 
-      // Invalid branch reference (non-existent thought)
+      // Invalid branch reference (non-existent thought), only a warning in lenient mode
       {
         thought: 'This references a non-existent branch point',
         thought_number: 1,
@@ -386,9 +2178,54 @@ const testScenarios: Record<string, TestScenario> = {
         total_thoughts: 1,
         next_thought_needed: false,
       },
+
+      // Not a tool call, so counted neither as a success nor as an error
+      { method: 'tools/list' },
     ],
-    expectedSuccessCount: 1,
-    expectedErrorCount: 5,
+    expectedSuccessCount: 2,
+    expectedErrorCount: 4,
+    verify: results => {
+      const errors: string[] = [];
+      const expected = [
+        'invalid_input',
+        'invalid_input',
+        'invalid_input',
+        'limit_exceeded',
+        'processed',
+        'processed',
+      ];
+
+      expected.forEach((outcome, i) => {
+        const result = results[i].response?.result;
+        const structured = result?.structuredContent as
+          | { status?: string; error_code?: string; warnings?: string[] }
+          | undefined;
+        const content = result?.content as { text?: string }[] | undefined;
+        if (!structured) {
+          errors.push(`Thought #${i + 1}: expected structuredContent`);
+          return;
+        }
+        if ((structured.error_code ?? structured.status) !== outcome) {
+          errors.push(
+            `Thought #${i + 1}: expected ${outcome}, got ${structured.error_code ?? structured.status}`
+          );
+        }
+        // Older clients read the same result from the text block
+        if (JSON.stringify(structured) !== JSON.stringify(JSON.parse(content?.[0]?.text ?? '{}'))) {
+          errors.push(`Thought #${i + 1}: the text block differs from structuredContent`);
+        }
+      });
+
+      const tools = results[6].response?.result?.tools as Tool[] | undefined;
+      const schema = tools?.find(t => t.name === 'code-reasoning')?.outputSchema as
+        | { anyOf?: { properties?: { status?: { const?: string } } }[] }
+        | undefined;
+      const statuses = schema?.anyOf?.map(s => s.properties?.status?.const);
+      if (JSON.stringify(statuses) !== JSON.stringify(['processed', 'failed'])) {
+        errors.push(`tools/list: expected an outputSchema for processed and failed results`);
+      }
+      return errors;
+    },
   },
 
   perf: {
@@ -405,8 +2242,151 @@ const testScenarios: Record<string, TestScenario> = {
   },
 };
 
+// Response of the HTTP server to a POST request
+interface HttpReply {
+  status: number;
+  // The mcp-session-id header, identifying the MCP connection
+  connectionId?: string;
+  // The JSON-RPC messages of the body, whether it was sent as JSON or as an event stream
+  messages: JsonRpcResponse[];
+  text: string;
+}
+
+// POST a JSON-RPC message to the HTTP server
+async function postMcp(
+  message: unknown,
+  connectionId?: string,
+  headers: Record<string, string> = {}
+): Promise<HttpReply> {
+  const response = await fetch(httpUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(connectionId && { 'mcp-session-id': connectionId }),
+      ...headers,
+    },
+    body: JSON.stringify(message),
+  });
+
+  const text = await response.text();
+  const lines = response.headers.get('content-type')?.includes('text/event-stream')
+    ? text
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice('data:'.length))
+    : [text];
+  const messages = lines.flatMap(line => {
+    try {
+      return [JSON.parse(line) as JsonRpcResponse];
+    } catch {
+      return [];
+    }
+  });
+
+  return {
+    status: response.status,
+    connectionId: response.headers.get('mcp-session-id') ?? undefined,
+    messages,
+    text,
+  };
+}
+
+// Open an MCP connection to the HTTP server
+async function connectHttp(headers: Record<string, string> = {}): Promise<HttpReply> {
+  const reply = await postMcp(
+    {
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'custom-test-client', version: '1.0.0' },
+      },
+    },
+    undefined,
+    headers
+  );
+  if (reply.connectionId) {
+    await postMcp({ jsonrpc: '2.0', method: 'notifications/initialized' }, reply.connectionId);
+  }
+  return reply;
+}
+
+// Send a thought over an HTTP connection and get the payload of the tool result
+async function sendThoughtHttp(
+  connectionId: string | undefined,
+  thought: Thought
+): Promise<Record<string, unknown> | undefined> {
+  const reply = await postMcp(
+    {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'code-reasoning', arguments: thought },
+    },
+    connectionId
+  );
+  return toolPayload({ thought, response: reply.messages[0], success: reply.status === 200 });
+}
+
+// Get the JSON payload of a code-reasoning tool result
+function toolPayload(result: ThoughtResult): Record<string, unknown> | undefined {
+  const toolResult = result.response?.result;
+  if (toolResult?.structuredContent) {
+    return toolResult.structuredContent as Record<string, unknown>;
+  }
+
+  const content = toolResult?.content as { type: string; text?: string }[] | undefined;
+  try {
+    return content?.[0]?.text
+      ? (JSON.parse(content[0].text) as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Check that the first text block of a tool result, e.g. an export, has each expected line
+function expectLines(label: string, result: ThoughtResult, expected: string[]): string[] {
+  const content = result.response?.result?.content as { text?: string }[] | undefined;
+  const lines = content?.[0]?.text?.split('\n') ?? [];
+  return expected
+    .filter(line => !lines.includes(line))
+    .map(line => `${label}: expected the line ${JSON.stringify(line)}`);
+}
+
+// Compare fields of a tool result payload with the expected values. Besides the payload's own
+// fields, issue_codes lists the codes of its issues and example_<field> reads its example.
+function expectFields(
+  label: string,
+  payload: Record<string, unknown> | undefined,
+  expected: Record<string, unknown>
+): string[] {
+  const issues = payload?.issues as { code: string }[] | undefined;
+  const example = payload?.example as Record<string, unknown> | undefined;
+  const repeatOf = payload?.repeat_of as Record<string, unknown> | null | undefined;
+  const actual: Record<string, unknown> = {
+    ...payload,
+    issue_codes: issues?.map(i => i.code),
+    repeat_of_thought_number: repeatOf?.thought_number,
+    ...Object.fromEntries(Object.entries(example ?? {}).map(([k, v]) => [`example_${k}`, v])),
+  };
+
+  return Object.entries(expected)
+    .filter(([key, value]) => JSON.stringify(actual[key]) !== JSON.stringify(value))
+    .map(
+      ([key, value]) =>
+        `${label}: expected ${key} ${JSON.stringify(value)}, got ${JSON.stringify(actual[key])}`
+    );
+}
+
 // Create a custom socket for communication
-async function createSocketConnection(): Promise<ChildProcess> {
+async function createSocketConnection(
+  server: ScenarioServer = {},
+  serverConfigDir = configDir
+): Promise<ChildProcess> {
   return new Promise<ChildProcess>((resolve, reject) => {
     // Start the server
     log('Starting server process...');
@@ -418,14 +2398,32 @@ async function createSocketConnection(): Promise<ChildProcess> {
     }
 
     log(`Using server entry point: ${indexJsPath}`);
-    const serverProcess = spawn('node', [indexJsPath, '--debug'], {
+    fs.mkdirSync(serverConfigDir, { recursive: true });
+    if (server.config) {
+      fs.writeFileSync(path.join(serverConfigDir, 'config.json'), JSON.stringify(server.config));
+    }
+    for (const [file, content] of Object.entries(server.files ?? {})) {
+      fs.mkdirSync(path.dirname(path.join(serverConfigDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(serverConfigDir, file), content);
+    }
+
+    const serverArgs = ['--debug', '--config-dir', serverConfigDir, ...(server.args ?? [])];
+    const serverProcess = spawn('node', [...(server.nodeArgs ?? []), indexJsPath, ...serverArgs], {
       stdio: 'pipe',
       shell: false,
+      env: { ...process.env, ...server.env },
+    });
+
+    const output: ServerOutput = { stdout: '', stderr: '' };
+    serverOutputs.set(serverProcess, output);
+    serverProcess.stdout.on('data', (data: Buffer) => {
+      output.stdout += data.toString();
     });
 
     // Handle server stderr for logging
     serverProcess.stderr.on('data', (data: Buffer) => {
       const message = data.toString();
+      output.stderr += message;
       log(`[SERVER] ${message.trim()}`);
     });
 
@@ -446,7 +2444,8 @@ async function createSocketConnection(): Promise<ChildProcess> {
 // Run a test scenario
 async function runTestScenario(
   serverProcess: ChildProcess,
-  scenario: TestScenario
+  scenario: TestScenario,
+  serverConfigDir = configDir
 ): Promise<TestResult> {
   log(`Running test scenario: ${scenario.name}`);
   log(scenario.description);
@@ -461,6 +2460,19 @@ async function runTestScenario(
     successfulThoughts: 0,
   };
 
+  if (scenario.check) {
+    const failures = await scenario.check(serverConfigDir);
+    for (const failure of failures) {
+      log(`✗ ${failure}`);
+    }
+    if (failures.length === 0) {
+      log('✓ Checks passed');
+    } else {
+      results.successful = false;
+    }
+    return results;
+  }
+
   // Initialize server with JSON-RPC
   log('Sending initialize request...');
   const initResponse = await sendJsonRpcMessage(serverProcess, {
@@ -512,29 +2524,40 @@ async function runTestScenario(
   // Run each thought
   for (let index = 0; index < scenario.thoughts.length; index++) {
     const thought = scenario.thoughts[index];
+    const request = 'method' in thought ? thought : undefined;
+    const label = request ? 'Request' : 'Thought';
     log(
-      `Sending thought #${index + 1}/${scenario.thoughts.length}: ${thought.thought?.substring?.(0, 50) || 'undefined'}...`
+      request
+        ? `Sending request #${index + 1}/${scenario.thoughts.length}: ${request.method}`
+        : `Sending thought #${index + 1}/${scenario.thoughts.length}: ${(thought as Thought).thought?.substring?.(0, 50) || 'undefined'}...`
     );
 
     try {
+      if (request?.delayMs) {
+        await new Promise(resolve => setTimeout(resolve, request.delayMs));
+      }
       const response = await sendJsonRpcMessage(serverProcess, {
         jsonrpc: '2.0',
         id: index + 2, // Start from id 2 (after initialize and tools/list)
-        method: 'tools/call',
-        params: {
-          name: 'code-reasoning',
-          arguments: thought,
-        },
+        method: request?.method ?? 'tools/call',
+        params: request
+          ? typeof request.params === 'function'
+            ? request.params(results.thoughts)
+            : (request.params ?? {})
+          : {
+              name: 'code-reasoning',
+              arguments: thought as unknown as Record<string, unknown>,
+            },
       });
 
       const success = !response.error;
 
       // Log the result
       if (success) {
-        log(`✓ Thought #${index + 1} succeeded`);
+        log(`✓ ${label} #${index + 1} succeeded`);
         results.successfulThoughts++;
       } else {
-        log(`✗ Thought #${index + 1} failed: ${response.error?.message || 'Unknown error'}`);
+        log(`✗ ${label} #${index + 1} failed: ${response.error?.message || 'Unknown error'}`);
         results.successful = false;
       }
 
@@ -550,7 +2573,7 @@ async function runTestScenario(
       }
     } catch (error) {
       log(
-        `Error sending thought #${index + 1}: ${error instanceof Error ? error.message : String(error)}`
+        `Error sending ${label.toLowerCase()} #${index + 1}: ${error instanceof Error ? error.message : String(error)}`
       );
       results.successful = false;
       results.thoughts.push({
@@ -649,12 +2672,23 @@ async function sendJsonRpcMessage(
   });
 }
 
+// Stop a server process started by createSocketConnection
+async function stopServer(serverProcess: ChildProcess): Promise<void> {
+  // Make sure to remove all data listeners to prevent callbacks after stream is closed
+  serverProcess.stdout?.removeAllListeners('data');
+  serverProcess.stderr?.removeAllListeners('data');
+  serverProcess.removeAllListeners('exit');
+
+  // Kill server
+  serverProcess.kill();
+
+  // Give a small delay to ensure no more events are processed
+  await new Promise(resolve => setTimeout(resolve, 100));
+}
+
 // Main function
 async function main() {
   try {
-    // Start server
-    const serverProcess = await createSocketConnection();
-
     // Determine which scenarios to run
     const scenariosToRun =
       options.scenario === 'all' ? Object.keys(testScenarios) : [options.scenario];
@@ -666,6 +2700,9 @@ async function main() {
       process.exit(1);
     }
 
+    // Start the server shared by the scenarios that don't need their own
+    let sharedServer: ChildProcess | undefined;
+
     // Results storage for multiple scenarios
     const allResults: TestResult[] = [];
     let totalSuccessfulThoughts = 0;
@@ -677,7 +2714,17 @@ async function main() {
       log(`\n=== Running test scenario: ${scenario.name} ===`);
       log(scenario.description);
 
-      const results = await runTestScenario(serverProcess, scenario);
+      let serverProcess: ChildProcess;
+      let results: TestResult;
+      if (scenario.server) {
+        const serverConfigDir = path.join(configDir, scenarioKey);
+        serverProcess = await createSocketConnection(scenario.server, serverConfigDir);
+        results = await runTestScenario(serverProcess, scenario, serverConfigDir);
+        await stopServer(serverProcess);
+      } else {
+        serverProcess = sharedServer ??= await createSocketConnection();
+        results = await runTestScenario(serverProcess, scenario);
+      }
       allResults.push(results);
 
       totalSuccessfulThoughts += results.successfulThoughts;
@@ -738,8 +2785,28 @@ async function main() {
           }
         }
       }
+
+      // Check the response payloads
+      if (scenario.verify) {
+        const failures = scenario.verify(
+          results.thoughts,
+          serverOutputs.get(serverProcess) ?? { stdout: '', stderr: '' },
+          scenario.server ? path.join(configDir, scenarioKey) : configDir
+        );
+        for (const failure of failures) {
+          log(`✗ ${failure}`);
+        }
+        if (failures.length === 0) {
+          log('✓ Responses match expectations');
+        } else {
+          results.successful = false;
+        }
+      }
     }
 
+    const overallSuccess =
+      totalSuccessfulThoughts === totalThoughts && allResults.every(r => r.successful);
+
     // Save all results to file
     const combinedResults: CombinedResults = {
       timestamp: new Date().toISOString(),
@@ -747,7 +2814,7 @@ async function main() {
       totalScenarios: scenariosToRun.length,
       totalThoughts: totalThoughts,
       totalSuccessfulThoughts: totalSuccessfulThoughts,
-      overallSuccess: totalSuccessfulThoughts === totalThoughts,
+      overallSuccess,
     };
 
     fs.writeFileSync(resultFile, JSON.stringify(combinedResults, null, 2));
@@ -758,23 +2825,23 @@ async function main() {
     log(`Scenarios run: ${scenariosToRun.length}`);
     log(`Total thoughts: ${totalThoughts}`);
     log(`Successful thoughts: ${totalSuccessfulThoughts}/${totalThoughts}`);
-    log(`Overall status: ${totalSuccessfulThoughts === totalThoughts ? 'SUCCESS' : 'FAILURE'}`);
-
-    // Make sure to remove all data listeners to prevent callbacks after stream is closed
-    serverProcess.stdout?.removeAllListeners('data');
-    serverProcess.stderr?.removeAllListeners('data');
+    log(`Overall status: ${overallSuccess ? 'SUCCESS' : 'FAILURE'}`);
 
-    // Kill server
-    serverProcess.kill();
-
-    // Give a small delay to ensure no more events are processed
-    await new Promise(resolve => setTimeout(resolve, 100));
+    if (sharedServer) {
+      await stopServer(sharedServer);
+    }
 
     // Close log stream
     logStream.end();
+    fs.rmSync(configDir, { recursive: true, force: true });
+
+    if (!overallSuccess) {
+      process.exitCode = 1;
+    }
   } catch (error) {
     log(`Error: ${error instanceof Error ? error.message : String(error)}`);
     logStream.end();
+    fs.rmSync(configDir, { recursive: true, force: true });
     process.exit(1);
   }
 }
@@ -783,5 +2850,6 @@ async function main() {
 main().catch(error => {
   log(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
   logStream.end();
+  fs.rmSync(configDir, { recursive: true, force: true });
   process.exit(1);
 });